@@ -0,0 +1,99 @@
+/**
+ * Library entry point, published as `injectbook/api`.
+ * Nothing here reads stdin or writes to stdout/stderr: progress is reported through
+ * `onProgress` and yes/no questions go to the injected `confirm` handler. Without a
+ * confirm handler, anything that would need an answer fails with a CliError instead.
+ */
+import {
+  convertBook as convertWithOptions,
+  validateParseOptions,
+  withEpubInput,
+  type ConvertOptions,
+  type ConvertResult
+} from "./commands/convert";
+import { loadBoilerplateRules } from "./config/boilerplate-rules";
+import { inspectBook as inspectWithOptions, type InspectOptions } from "./commands/inspect";
+import { parseEpubToChapters, type EpubInspection } from "./parser";
+import type { BookMetadata, Chapter, ExcludedChapter, SkillAsset, TermIndexEntry } from "./types";
+
+export { searchSkill } from "./commands/search";
+export { validateSkill } from "./commands/validate";
+export { writeSkill } from "./skill-writer";
+export { CliError } from "./types";
+export type { ConvertOptions, ConvertResult } from "./commands/convert";
+export type { SearchHit, SearchOptions } from "./commands/search";
+export type { ValidateOptions, ValidationIssue, ValidationReport } from "./commands/validate";
+export type { EpubInspection } from "./parser";
+export type {
+  BoilerplateRuleConfig,
+  BookMetadata,
+  Chapter,
+  ChunkOptions,
+  ChunkUnit,
+  ConfirmHandler,
+  ConfirmRequest,
+  ExcludedChapter,
+  ExitCode,
+  NormalizeMode,
+  OutputFormat,
+  ProgressEvent,
+  ProgressHandler,
+  SkillAsset,
+  SkillTemplates,
+  SkillWriteOptions,
+  SkillWriteResult,
+  TermIndexEntry
+} from "./types";
+
+/** The CLI defaults, applied to every option the caller leaves out. */
+export const DEFAULT_OPTIONS = {
+  includeFullBook: true,
+  chapterPrefix: "chapter-",
+  maxChapterWords: 15000,
+  filterBoilerplate: true,
+  stripImages: true,
+  stripInternalLinks: true,
+  normalize: "auto"
+} satisfies Partial<ConvertOptions>;
+
+export type ParseBookOptions = Partial<InspectOptions>;
+
+export type ParsedBook = {
+  metadata: BookMetadata;
+  chapters: Chapter[];
+  excluded: ExcludedChapter[];
+  assets: SkillAsset[];
+  termIndex: TermIndexEntry[];
+};
+
+/** Parse a book into chapters without writing anything to disk. */
+export async function parseBook(inputBook: string, options: ParseBookOptions = {}): Promise<ParsedBook> {
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+  validateParseOptions(resolved);
+  const rules = resolved.rules ? loadBoilerplateRules(resolved.rules) : undefined;
+
+  return withEpubInput(inputBook, resolved, async (epubPath) =>
+    parseEpubToChapters(epubPath, {
+      maxChapterWords: resolved.maxChapterWords,
+      maxChapterTokens: resolved.maxChapterTokens,
+      tocDepth: resolved.tocDepth,
+      filterBoilerplate: resolved.filterBoilerplate,
+      rules,
+      includeChapters: resolved.includeChapters,
+      excludeChapters: resolved.excludeChapters,
+      stripImages: resolved.stripImages,
+      stripInternalLinks: resolved.stripInternalLinks,
+      rewriteInternalLinks: resolved.rewriteInternalLinks
+    })
+  );
+}
+
+/** Convert a book into a skill folder, like `injectbook convert`. */
+export async function convertBook(inputBook: string, options: Partial<ConvertOptions> = {}): Promise<ConvertResult> {
+  return convertWithOptions(inputBook, { ...DEFAULT_OPTIONS, ...options });
+}
+
+/** Report how a book would be split, like `injectbook inspect`. */
+export async function inspectBook(inputBook: string, options: ParseBookOptions = {}): Promise<EpubInspection> {
+  return inspectWithOptions(inputBook, { ...DEFAULT_OPTIONS, ...options });
+}
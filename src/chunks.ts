@@ -0,0 +1,215 @@
+import { hashContent } from "./manifest";
+import { estimateTokens } from "./tokens";
+import type { Chapter, ChunkOptions } from "./types";
+
+export const CHUNKS_PATH = "references/chunks.jsonl";
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^(#{1,6})\s+(.+)$/;
+
+// One line of references/chunks.jsonl.
+export type SkillChunk = {
+  id: string;
+  chapterIndex: number;
+  chapterTitle: string;
+  headingPath: string[];
+  sourceFile: string;
+  file: string;
+  text: string;
+  words: number;
+  tokens: number;
+};
+
+type Block = {
+  text: string;
+  // Code blocks and tables are never cut, even when they exceed the chunk size.
+  atomic: boolean;
+};
+
+type Section = {
+  headingPath: string[];
+  blocks: Block[];
+};
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/** Split chapter markdown into sections at headings, and each section into blocks. */
+function markdownSections(markdown: string): Section[] {
+  const lines = markdown.split("\n");
+  const headings: { level: number; text: string }[] = [];
+  const sections: Section[] = [{ headingPath: [], blocks: [] }];
+  let paragraph: string[] = [];
+
+  const currentSection = (): Section => sections[sections.length - 1];
+  const flushParagraph = (): void => {
+    if (paragraph.length > 0) {
+      currentSection().blocks.push({ text: paragraph.join("\n"), atomic: paragraph.every((line) => /^\s*\|/.test(line)) });
+      paragraph = [];
+    }
+  };
+
+  for (let position = 0; position < lines.length; position += 1) {
+    const line = lines[position];
+    const fence = line.match(FENCE)?.[1];
+    if (fence) {
+      flushParagraph();
+      const codeLines = [line];
+      while (position + 1 < lines.length) {
+        position += 1;
+        codeLines.push(lines[position]);
+        if (lines[position].trim().startsWith(fence)) {
+          break;
+        }
+      }
+      currentSection().blocks.push({ text: codeLines.join("\n"), atomic: true });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: heading[2].trim() });
+      sections.push({ headingPath: headings.map((entry) => entry.text), blocks: [] });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  return sections.filter((section) => section.blocks.length > 0);
+}
+
+/**
+ * Break a text block that is larger than the chunk size into pieces that fit:
+ * first at line breaks (list items), then at word boundaries.
+ */
+function splitOversizedBlock(block: Block, options: ChunkOptions, measure: (text: string) => number): Block[] {
+  if (block.atomic || measure(block.text) <= options.size) {
+    return [block];
+  }
+
+  const units = block.text.split("\n").flatMap((line) =>
+    measure(line) <= options.size
+      ? [{ text: line, separator: "\n" }]
+      : line
+          .split(/\s+/)
+          .filter(Boolean)
+          .map((word, position) => ({ text: word, separator: position === 0 ? "\n" : " " }))
+  );
+
+  // Both measures ignore whitespace, so piece sizes can be summed instead of re-measured.
+  const pieces: Block[] = [];
+  let current = "";
+  let currentSize = 0;
+  for (const unit of units) {
+    const size = measure(unit.text);
+    if (current && currentSize + size > options.size) {
+      pieces.push({ text: current, atomic: false });
+      current = unit.text;
+      currentSize = size;
+    } else {
+      current = current ? `${current}${unit.separator}${unit.text}` : unit.text;
+      currentSize += size;
+    }
+  }
+  if (current) {
+    pieces.push({ text: current, atomic: false });
+  }
+  return pieces;
+}
+
+/**
+ * Pack the blocks of one section into chunks of at most `size` units. Each chunk after
+ * the first repeats whole trailing blocks of the previous one, up to `overlap` units.
+ */
+function packSection(section: Section, options: ChunkOptions, measure: (text: string) => number): string[] {
+  const blocks = section.blocks.flatMap((block) => splitOversizedBlock(block, options, measure));
+  const chunks: string[] = [];
+  let current: { text: string; size: number }[] = [];
+  let hasNewContent = false;
+
+  const emit = (): void => {
+    if (hasNewContent) {
+      chunks.push(current.map((block) => block.text).join("\n\n"));
+    }
+  };
+
+  for (const block of blocks) {
+    const size = measure(block.text);
+    const currentSize = current.reduce((sum, entry) => sum + entry.size, 0);
+    if (current.length > 0 && currentSize + size > options.size) {
+      emit();
+      const tail: { text: string; size: number }[] = [];
+      let tailSize = 0;
+      for (let position = current.length - 1; position >= 0; position -= 1) {
+        if (tailSize + current[position].size > options.overlap) {
+          break;
+        }
+        tail.unshift(current[position]);
+        tailSize += current[position].size;
+      }
+      while (tail.length > 0 && tailSize + size > options.size) {
+        tailSize -= tail.shift()?.size ?? 0;
+      }
+      current = tail;
+      hasNewContent = false;
+    }
+    current.push({ text: block.text, size });
+    hasNewContent = true;
+  }
+  emit();
+
+  return chunks;
+}
+
+/**
+ * Chunk every chapter for retrieval. Chunks never cross a heading, a code block or a
+ * table. Ids hash the source file, heading path and text (plus an occurrence counter for
+ * repeated text), so they stay the same across re-runs and when other chapters change.
+ */
+export function buildChunks(
+  chapters: { chapter: Chapter; file: string; markdown: string }[],
+  options: ChunkOptions
+): SkillChunk[] {
+  const measure = options.unit === "tokens" ? estimateTokens : countWords;
+  const seen = new Map<string, number>();
+  const chunks: SkillChunk[] = [];
+
+  for (const { chapter, file, markdown } of chapters) {
+    for (const section of markdownSections(markdown)) {
+      for (const text of packSection(section, options, measure)) {
+        const identity = `${chapter.sourceFile}\n${section.headingPath.join("\n")}\n${text}`;
+        const occurrence = seen.get(identity) || 0;
+        seen.set(identity, occurrence + 1);
+        chunks.push({
+          id: hashContent(`${identity}\n${occurrence}`).slice(0, 16),
+          chapterIndex: chapter.index,
+          chapterTitle: chapter.title,
+          headingPath: section.headingPath,
+          sourceFile: chapter.sourceFile,
+          file,
+          text,
+          words: countWords(text),
+          tokens: estimateTokens(text)
+        });
+      }
+    }
+  }
+
+  return chunks;
+}
+
+export function renderChunksJsonl(chunks: SkillChunk[]): string {
+  return chunks.map((chunk) => `${JSON.stringify(chunk)}\n`).join("");
+}
@@ -1,6 +1,12 @@
 #!/usr/bin/env node
-import { Command } from "commander";
-import { convertBook } from "./commands/convert";
+import { Command, type OptionValues } from "commander";
+import { buildConvertReport, convertBook, type ConvertOptions } from "./commands/convert";
+import { convertAll, formatBatchSummary } from "./commands/convert-all";
+import { formatInspection, inspectBook } from "./commands/inspect";
+import { formatSearchResults, searchSkill } from "./commands/search";
+import { formatValidationReport, validateSkill } from "./commands/validate";
+import { applyProjectConfig, findProjectConfig, loadProjectConfig } from "./config/project-config";
+import { createTerminalConfirm, createTerminalProgress } from "./terminal";
 import { CliError } from "./types";
 import pkg from "../package.json";
 
@@ -13,48 +19,192 @@ program
   .showHelpAfterError()
   .showSuggestionAfterError();
 
-program
-  .command("convert")
-  .description("Convert a book file into a skill folder")
-  .argument("<input-book>", "Path to input book file")
-  .option("--out-dir <path>", "Output directory (final skill folder, writes SKILL.md + references/ here)")
-  .option("-o, --output <path>", "Alias for --out-dir")
-  .option("--output-dir <path>", "Alias for --out-dir")
-  .option("--skill-dir <path>", "Alias for --out-dir")
-  .option("--out-parent-dir <path>", "Parent directory; creates <slug>-skill/ under it")
-  .option("--output-parent-dir <path>", "Alias for --out-parent-dir")
-  .option("--skill-name <name>", "Override skill name")
-  .option("-n, --name <name>", "Alias for --skill-name")
-  .option("--description <text>", "Override skill description")
-  .option("--include-full-book", "Include references/book_full.md", true)
-  .option("--no-include-full-book", "Skip references/book_full.md")
-  .option("--chapter-prefix <string>", "Prefix for chapter reference files", "chapter-")
-  .option("--install", "Write output to --install-dir/<book-slug>-skill")
-  .option("--install-dir <path>", "Skill install directory", ".agents/skills")
-  .option("--max-chapter-words <n>", "Split chapters larger than this word count", "15000")
-  .option("--filter-boilerplate", "Drop license/cover/contents boilerplate", true)
-  .option("--no-filter-boilerplate", "Keep boilerplate sections")
-  .option("--strip-images", "Strip image references from markdown", true)
-  .option("--no-strip-images", "Keep image references in markdown")
-  .option("--strip-internal-links", "Strip internal EPUB links, keep link text", true)
-  .option("--no-strip-internal-links", "Keep internal EPUB links in markdown")
-  .option(
-    "--calibre-arg <arg>",
-    "Append one raw argument token to ebook-convert (repeatable)",
-    (value: string, previous: string[]) => [...previous, value],
-    []
+function addParseOptions(command: Command): Command {
+  return command
+    .option("--max-chapter-words <n>", "Split chapters larger than this word count", "15000")
+    .option("--max-chapter-tokens <n>", "Also split chapters whose estimated token count is larger than this")
+    .option("--toc-depth <n>", "Split chapters at this TOC nesting level (default: every level)")
+    .option("--filter-boilerplate", "Drop license/cover/contents boilerplate", true)
+    .option("--no-filter-boilerplate", "Keep boilerplate sections")
+    .option("--rules <path>", "JSON file with extra boilerplate rules (applied even with --no-filter-boilerplate)")
+    .option(
+      "--include-chapter <pattern>",
+      "Always keep chapters matching a number, range (3-5) or title regex (repeatable)",
+      (value: string, previous: string[]) => [...previous, value],
+      []
+    )
+    .option(
+      "--exclude-chapter <pattern>",
+      "Always drop chapters matching a number, range (3-5) or title regex (repeatable)",
+      (value: string, previous: string[]) => [...previous, value],
+      []
+    )
+    .option("--strip-images", "Strip image references from markdown", true)
+    .option("--no-strip-images", "Keep image references in markdown")
+    .option("--strip-internal-links", "Strip internal EPUB links, keep link text", true)
+    .option("--no-strip-internal-links", "Keep internal EPUB links in markdown")
+    .option("--rewrite-internal-links", "Rewrite internal EPUB links into relative links between chapter files")
+    .option(
+      "--calibre-arg <arg>",
+      "Append one raw argument token to ebook-convert (repeatable)",
+      (value: string, previous: string[]) => [...previous, value],
+      []
+    )
+    .option("--normalize <mode>", "Calibre normalization: auto (skip for valid EPUBs), always, never", "auto")
+    .option("--keep-temp", "Keep temporary normalized files when conversion fails")
+    .option("--profile <name>", "Use a named profile from injectbook.config.json or .injectbookrc")
+    .option("--verbose", "Verbose output");
+}
+
+function addConversionOptions(command: Command): Command {
+  return addParseOptions(
+    command
+      .option("--include-full-book", "Include references/book_full.md", true)
+      .option("--no-include-full-book", "Skip references/book_full.md")
+      .option("--chapter-prefix <string>", "Prefix for chapter reference files", "chapter-")
+      .option("--install", "Write output to --install-dir/<book-slug>-skill")
+      .option("--install-dir <path>", "Skill install directory", ".agents/skills")
   )
-  .option("--keep-temp", "Keep temporary normalized files when conversion fails")
-  .option("--overwrite", "Replace existing output directory")
-  .option("--verbose", "Verbose output")
+    .option("--overwrite", "Replace existing output directory")
+    .option("--keep-backup", "With --overwrite, keep the previous skill as a hidden .<name>.backup-<timestamp> sibling")
+    .option("--search-index", "Write references/search-index.json for `injectbook search`")
+    .option("--keep-excluded", "Write dropped chapters to references/_excluded/ for review")
+    .option("--keywords", "Add TF-IDF keywords to each chapter's frontmatter and index row")
+    .option("--summaries", "Add an extractive 1-3 sentence summary to each chapter's frontmatter and index row")
+    .option(
+      "--format <formats>",
+      "Output layouts, comma-separated or repeated: skill, llms-txt, agents-md, cursor (default: skill)",
+      (value: string, previous: string[]) => [...previous, ...value.split(",").map((format) => format.trim())],
+      []
+    )
+    .option("--template <path>", "Render SKILL.md from this template instead of the bundled one")
+    .option("--chapter-template <path>", "Render each chapter file from this template")
+    .option("--full-book-template <path>", "Render references/book_full.md from this template")
+    .option("--chunks", "Write references/chunks.jsonl for retrieval pipelines")
+    .option("--chunk-size <n>", "Maximum chunk size, in --chunk-unit units", "400")
+    .option("--chunk-overlap <n>", "Size of the trailing blocks repeated at the start of the next chunk", "50")
+    .option("--chunk-unit <unit>", "Unit for --chunk-size and --chunk-overlap: words or tokens (estimated)", "words");
+}
+
+// Options whose commander attribute name differs from the ConvertOptions field.
+const OPTION_ATTRIBUTES: Partial<Record<keyof ConvertOptions, string>> = {
+  calibreArgs: "calibreArg",
+  includeChapters: "includeChapter",
+  excludeChapters: "excludeChapter"
+};
+
+/** Whether the option's flag was given on the command line, rather than left at its default. */
+function isCliOption(command: Command, key: keyof ConvertOptions): boolean {
+  return command.getOptionValueSource(OPTION_ATTRIBUTES[key] ?? key) === "cli";
+}
+
+/**
+ * Merge project config defaults and the selected --profile under the parsed CLI options.
+ * Flags given explicitly on the command line keep their values.
+ */
+function resolveProjectOptions<T extends ConvertOptions>(
+  cliOptions: T,
+  options: OptionValues,
+  command: Command,
+  log: (message: string) => void = console.log
+): T {
+  const configPath = findProjectConfig();
+  const config = configPath ? loadProjectConfig(configPath) : undefined;
+  const resolved = applyProjectConfig(
+    cliOptions,
+    config,
+    options.profile,
+    (key) => isCliOption(command, key)
+  );
+
+  if (resolved.verbose) {
+    const profileText = options.profile ? ` (profile: ${options.profile})` : "";
+    log(config ? `Using config ${config.path}${profileText}` : "No project config found");
+    log(`Resolved options:\n${JSON.stringify(resolved, null, 2)}`);
+  }
+
+  return resolved;
+}
+
+function toConvertOptions(options: OptionValues): ConvertOptions {
+  return {
+    includeFullBook: options.includeFullBook,
+    chapterPrefix: options.chapterPrefix,
+    install: options.install,
+    installDir: options.installDir,
+    maxChapterWords: Number.parseInt(options.maxChapterWords, 10),
+    maxChapterTokens: options.maxChapterTokens === undefined ? undefined : Number.parseInt(options.maxChapterTokens, 10),
+    tocDepth: options.tocDepth === undefined ? undefined : Number.parseInt(options.tocDepth, 10),
+    filterBoilerplate: options.filterBoilerplate,
+    rules: options.rules,
+    includeChapters: options.includeChapter,
+    excludeChapters: options.excludeChapter,
+    stripImages: options.stripImages,
+    stripInternalLinks: options.stripInternalLinks,
+    rewriteInternalLinks: options.rewriteInternalLinks,
+    calibreArgs: options.calibreArg,
+    normalize: options.normalize,
+    keepTemp: options.keepTemp,
+    overwrite: options.overwrite,
+    keepBackup: options.keepBackup,
+    searchIndex: options.searchIndex,
+    keepExcluded: options.keepExcluded,
+    summaries: options.summaries,
+    keywords: options.keywords,
+    template: options.template,
+    chapterTemplate: options.chapterTemplate,
+    fullBookTemplate: options.fullBookTemplate,
+    format: options.format,
+    chunks: options.chunks,
+    chunkSize: options.chunkSize === undefined ? undefined : Number.parseInt(options.chunkSize, 10),
+    chunkOverlap: options.chunkOverlap === undefined ? undefined : Number.parseInt(options.chunkOverlap, 10),
+    chunkUnit: options.chunkUnit,
+    verbose: options.verbose
+  };
+}
+
+function exitWithError(error: unknown): never {
+  if (error instanceof CliError) {
+    console.error(error.message);
+    process.exit(error.code);
+  }
+
+  const message = error instanceof Error ? error.message : "unknown error";
+  console.error(`Unexpected error: ${message}`);
+  process.exit(4);
+}
+
+addConversionOptions(
+  program
+    .command("convert")
+    .description("Convert a book file into a skill folder")
+    .argument("<input-book>", "Path to input book file")
+    .option("--out-dir <path>", "Output directory (final skill folder, writes SKILL.md + references/ here)")
+    .option("-o, --output <path>", "Alias for --out-dir")
+    .option("--output-dir <path>", "Alias for --out-dir")
+    .option("--skill-dir <path>", "Alias for --out-dir")
+    .option("--out-parent-dir <path>", "Parent directory; creates <slug>-skill/ under it")
+    .option("--output-parent-dir <path>", "Alias for --out-parent-dir")
+    .option("--skill-name <name>", "Override skill name")
+    .option("-n, --name <name>", "Alias for --skill-name")
+    .option("--description <text>", "Override skill description")
+    .option("--update", "Regenerate an existing --out-dir skill with its recorded options, touching only changed files")
+    .option("--json", "Print one JSON result document to stdout (progress goes to stderr)")
+)
   .addHelpText("after", `
 Examples:
   injectbook convert ./my-book.epub
   injectbook convert ./book.pdf -o ./output/my-skill
+  injectbook convert ./book.epub --json > result.json
+  injectbook convert ./book.epub --normalize never
+  injectbook convert ./book.epub -o ./skills/my-skill --update
   injectbook convert ./book.pdf --out-parent-dir ./skills
   injectbook convert ./book.epub --install --install-dir .agents/skills
 `)
-  .action(async (inputBook: string, options) => {
+  .action(async (inputBook: string, options, command: Command) => {
+    // In --json mode stdout is reserved for the result document.
+    const output = options.json ? process.stderr : process.stdout;
+    const log = options.json ? console.error : console.log;
     try {
       // Coalesce aliases: prefer explicit --out-dir, then aliases
       const outDir = options.outDir ?? options.output ?? options.outputDir ?? options.skillDir;
@@ -75,37 +225,164 @@ Examples:
         );
       }
 
-      const result = await convertBook(inputBook, {
-        outDir,
-        outParentDir,
-        skillName,
-        description: options.description,
-        includeFullBook: options.includeFullBook,
-        chapterPrefix: options.chapterPrefix,
-        install: options.install,
-        installDir: options.installDir,
-        maxChapterWords: Number.parseInt(options.maxChapterWords, 10),
-        filterBoilerplate: options.filterBoilerplate,
-        stripImages: options.stripImages,
-        stripInternalLinks: options.stripInternalLinks,
-        calibreArgs: options.calibreArg,
-        keepTemp: options.keepTemp,
-        overwrite: options.overwrite,
-        verbose: options.verbose
-      });
-
-      console.log(`Generated skill at ${result.outDir}`);
-      console.log(`Extracted ${result.chapters} chapter(s)`);
+      const convertOptions = resolveProjectOptions(
+        {
+          ...toConvertOptions(options),
+          outDir,
+          outParentDir,
+          skillName,
+          description: options.description,
+          update: options.update,
+          // --name is an alias, so check the coalesced value rather than the flag.
+          isExplicit: (key) => (key === "skillName" ? skillName !== undefined : isCliOption(command, key)),
+          onProgress: createTerminalProgress(output),
+          confirm: createTerminalConfirm(output)
+        },
+        options,
+        command,
+        log
+      );
+      const result = await convertBook(inputBook, convertOptions);
+
+      if (options.json) {
+        console.log(JSON.stringify(buildConvertReport(inputBook, { result }), null, 2));
+      } else if (result.changed && result.removed) {
+        console.log(`Updated skill at ${result.outDir}`);
+        console.log(`${result.changed.length} file(s) changed, ${result.removed.length} removed`);
+      } else {
+        console.log(`Generated skill at ${result.outDir}`);
+        console.log(`Extracted ${result.chapters} chapter(s)`);
+      }
       process.exit(0);
     } catch (error) {
-      if (error instanceof CliError) {
-        console.error(error.message);
-        process.exit(error.code);
+      if (options.json) {
+        console.log(JSON.stringify(buildConvertReport(inputBook, { error }), null, 2));
+      }
+      exitWithError(error);
+    }
+  });
+
+addConversionOptions(
+  program
+    .command("convert-all")
+    .description("Convert every book in a directory or glob into skill folders")
+    .argument("<inputs...>", "Directories, glob patterns, or book files")
+    .option("--out-parent-dir <path>", "Parent directory; creates <slug>-skill/ under it for each book")
+    .option("--output-parent-dir <path>", "Alias for --out-parent-dir")
+    .option("--concurrency <n>", "Number of books to convert at the same time", "2")
+    .option("--report <path>", "Write a JSON report of every conversion to this file")
+)
+  .addHelpText("after", `
+Examples:
+  injectbook convert-all ./books --out-parent-dir ./skills
+  injectbook convert-all "./books/**/*.epub" --concurrency 4 --report ./report.json
+`)
+  .action(async (inputs: string[], options, command: Command) => {
+    try {
+      const outParentDir = options.outParentDir ?? options.outputParentDir;
+      if (outParentDir && options.install) {
+        throw new CliError(
+          "Conflicting output options: --out-parent-dir (or alias), --install. Use only one of: --out-parent-dir, --install",
+          2
+        );
       }
 
-      const message = error instanceof Error ? error.message : "unknown error";
-      console.error(`Unexpected error: ${message}`);
-      process.exit(4);
+      const batchOptions = resolveProjectOptions(
+        {
+          ...toConvertOptions(options),
+          outParentDir,
+          concurrency: Number.parseInt(options.concurrency, 10),
+          reportPath: options.report,
+          onProgress: createTerminalProgress(),
+          confirm: createTerminalConfirm()
+        },
+        options,
+        command
+      );
+      const summary = await convertAll(inputs, batchOptions);
+
+      console.log("");
+      console.log(formatBatchSummary(summary, process.cwd()));
+      process.exit(summary.exitCode);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addParseOptions(
+  program
+    .command("inspect")
+    .description("Preview how a book would be split into chapters, without writing a skill")
+    .argument("<input-book>", "Path to input book file")
+    .option("--json", "Print the inspection report as JSON")
+)
+  .addHelpText("after", `
+Examples:
+  injectbook inspect ./my-book.epub
+  injectbook inspect ./my-book.epub --toc-depth 1 --json
+`)
+  .action(async (inputBook: string, options, command: Command) => {
+    try {
+      // Keep stdout for the report; progress and verbose details go to stderr.
+      const inspectOptions = resolveProjectOptions(
+        {
+          ...toConvertOptions(options),
+          onProgress: createTerminalProgress(process.stderr),
+          confirm: createTerminalConfirm(process.stderr)
+        },
+        options,
+        command,
+        console.error
+      );
+      const inspection = await inspectBook(inputBook, inspectOptions);
+      console.log(options.json ? JSON.stringify(inspection, null, 2) : formatInspection(inspection));
+      process.exit(0);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("search")
+  .description("Search a skill generated with --search-index and print ranked passages")
+  .argument("<skill-dir>", "Path to a skill folder")
+  .argument("<query>", "Search terms")
+  .option("--limit <n>", "Maximum number of passages to print", "10")
+  .option("--json", "Print the results as JSON")
+  .addHelpText("after", `
+Examples:
+  injectbook search ./skills/my-skill "error handling"
+  injectbook search ./skills/my-skill "retry policy" --limit 3 --json
+`)
+  .action((skillDir: string, query: string, options) => {
+    try {
+      const hits = searchSkill(skillDir, query, { limit: Number.parseInt(options.limit, 10) });
+      console.log(options.json ? JSON.stringify(hits, null, 2) : formatSearchResults(hits));
+      process.exit(0);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("validate")
+  .description("Check a generated or hand-edited skill folder and report every issue")
+  .argument("<skill-dir>", "Path to a skill folder")
+  .option("--max-words <n>", "Flag files with more words than this", "15000")
+  .option("--strict", "Exit non-zero on warnings too")
+  .option("--json", "Print the report as JSON")
+  .addHelpText("after", `
+Examples:
+  injectbook validate ./skills/my-skill
+  injectbook validate ./skills/my-skill --strict --json
+`)
+  .action((skillDir: string, options) => {
+    try {
+      const report = validateSkill(skillDir, { maxWords: Number.parseInt(options.maxWords, 10) });
+      console.log(options.json ? JSON.stringify(report, null, 2) : formatValidationReport(report));
+      process.exit(report.errors > 0 || (options.strict && report.warnings > 0) ? 2 : 0);
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
@@ -113,6 +390,10 @@ program.addHelpText("after", `
 Quick start:
   injectbook convert ./my-book.epub
   injectbook convert ./book.pdf --install --install-dir .agents/skills
+  injectbook convert-all ./books --out-parent-dir ./skills
+  injectbook inspect ./my-book.epub
+  injectbook search ./skills/my-skill "some topic"
+  injectbook validate ./skills/my-skill
 `);
 
 program.parse(process.argv);
@@ -0,0 +1,325 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { formatTable } from '../text-table'
+import {
+  CliError,
+  type ConfirmHandler,
+  type ExitCode,
+  type ProgressHandler,
+} from '../types'
+import { convertBook, type ConvertOptions } from './convert'
+
+export type ConvertAllOptions = Omit<
+  ConvertOptions,
+  'outDir' | 'skillName' | 'description' | 'update'
+> & {
+  concurrency: number
+  reportPath?: string
+}
+
+export type BatchResult = {
+  input: string
+  status: 'converted' | 'failed'
+  exitCode: ExitCode
+  chapters: number
+  outDir?: string
+  error?: string
+}
+
+export type BatchSummary = {
+  results: BatchResult[]
+  converted: number
+  failed: number
+  exitCode: ExitCode
+}
+
+const BOOK_EXTENSIONS = [
+  '.epub',
+  '.pdf',
+  '.mobi',
+  '.azw',
+  '.azw3',
+  '.fb2',
+  '.docx',
+  '.odt',
+  '.rtf',
+  '.txt',
+  '.html',
+  '.htm',
+]
+
+function isBookFile(filePath: string): boolean {
+  return BOOK_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+}
+
+function hasGlobSyntax(value: string): boolean {
+  return /[*?[]/.test(value)
+}
+
+/**
+ * Translate a glob pattern into an anchored regular expression.
+ * Supports `**` (any depth), `*` and `?` (within one path segment) and `[...]` classes.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index]
+    if (char === '*') {
+      if (pattern[index + 1] === '*') {
+        const followedBySlash = pattern[index + 2] === '/'
+        source += followedBySlash ? '(?:.*/)?' : '.*'
+        index += followedBySlash ? 2 : 1
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', index + 1)
+      if (close === -1) {
+        source += '\\['
+      } else {
+        source += `[${pattern.slice(index + 1, close).replace(/^!/, '^')}]`
+        index = close
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+function listFilesRecursive(dirPath: string): string[] {
+  const files: string[] = []
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    const entryPath = path.join(dirPath, entry.name)
+    if (entry.isDirectory()) {
+      files.push(...listFilesRecursive(entryPath))
+    } else if (entry.isFile()) {
+      files.push(entryPath)
+    }
+  }
+  return files
+}
+
+function expandGlob(pattern: string): string[] {
+  const normalized = pattern.split(path.sep).join('/')
+  const segments = normalized.split('/')
+  const firstGlobSegment = segments.findIndex((segment) =>
+    hasGlobSyntax(segment),
+  )
+  const baseDir = segments.slice(0, firstGlobSegment).join('/') || '.'
+  if (!fs.existsSync(baseDir) || !fs.statSync(baseDir).isDirectory()) {
+    return []
+  }
+
+  const matcher = globToRegExp(segments.slice(firstGlobSegment).join('/'))
+  return listFilesRecursive(baseDir).filter((filePath) =>
+    matcher.test(path.relative(baseDir, filePath).split(path.sep).join('/')),
+  )
+}
+
+/**
+ * Resolve directories, glob patterns and plain file paths into a sorted,
+ * de-duplicated list of book files. Directories contribute their top-level
+ * files with a known book extension.
+ */
+export function expandBookInputs(inputs: string[]): string[] {
+  const books = new Set<string>()
+
+  for (const input of inputs) {
+    if (fs.existsSync(input)) {
+      const stats = fs.statSync(input)
+      if (stats.isDirectory()) {
+        for (const entry of fs.readdirSync(input)) {
+          const entryPath = path.join(input, entry)
+          if (isBookFile(entryPath) && fs.statSync(entryPath).isFile()) {
+            books.add(path.resolve(entryPath))
+          }
+        }
+        continue
+      }
+      books.add(path.resolve(input))
+      continue
+    }
+
+    if (hasGlobSyntax(input)) {
+      for (const match of expandGlob(input)) {
+        books.add(path.resolve(match))
+      }
+      continue
+    }
+
+    throw new CliError(`Input path does not exist: ${input}`, 2)
+  }
+
+  return [...books].sort((first, second) => first.localeCompare(second))
+}
+
+async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+
+  const runners = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex
+        nextIndex += 1
+        results[index] = await worker(items[index])
+      }
+    },
+  )
+
+  await Promise.all(runners)
+  return results
+}
+
+/**
+ * Label every progress message with the book it belongs to, since concurrent
+ * conversions interleave. Raw Calibre output is passed through as-is.
+ */
+function labelProgress(
+  label: string,
+  onProgress?: ProgressHandler,
+): ProgressHandler | undefined {
+  return (
+    onProgress &&
+    ((event) =>
+      onProgress(
+        event.type === 'output'
+          ? event
+          : { ...event, message: `[${label}] ${event.message}` },
+      ))
+  )
+}
+
+// Ask one question at a time; concurrent conversions would otherwise prompt at once.
+function serializeConfirm(confirm?: ConfirmHandler): ConfirmHandler | undefined {
+  let pending: Promise<unknown> = Promise.resolve()
+  return (
+    confirm &&
+    ((request) => {
+      const answer = pending.then(() => confirm(request))
+      pending = answer.catch(() => undefined)
+      return answer
+    })
+  )
+}
+
+async function convertOne(
+  input: string,
+  options: ConvertOptions,
+): Promise<BatchResult> {
+  try {
+    const result = await convertBook(input, options)
+    return {
+      input,
+      status: 'converted',
+      exitCode: 0,
+      chapters: result.chapters,
+      outDir: result.outDir,
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'unknown error'
+    return {
+      input,
+      status: 'failed',
+      exitCode: error instanceof CliError ? error.code : 4,
+      chapters: 0,
+      error: message,
+    }
+  }
+}
+
+function writeReport(reportPath: string, summary: BatchSummary): void {
+  const resolved = path.resolve(reportPath)
+  fs.mkdirSync(path.dirname(resolved), { recursive: true })
+  fs.writeFileSync(resolved, `${JSON.stringify(summary, null, 2)}\n`, 'utf8')
+}
+
+export async function convertAll(
+  inputs: string[],
+  options: ConvertAllOptions,
+): Promise<BatchSummary> {
+  if (!Number.isInteger(options.concurrency) || options.concurrency <= 0) {
+    throw new CliError(
+      `Invalid --concurrency value: ${options.concurrency}`,
+      2,
+    )
+  }
+
+  const books = expandBookInputs(inputs)
+  if (books.length === 0) {
+    throw new CliError(`No book files found in: ${inputs.join(', ')}`, 2)
+  }
+
+  const { concurrency, reportPath, ...convertOptions } = options
+  convertOptions.onProgress?.({
+    type: 'status',
+    message: `Converting ${books.length} book(s) with concurrency ${Math.min(concurrency, books.length)}`,
+  })
+
+  // Titles decide output directories, so collisions only show up once a book is
+  // parsed. The first book to claim a directory keeps it; later ones fail before writing.
+  const claimedOutDirs = new Map<string, string>()
+  const confirm = serializeConfirm(convertOptions.confirm)
+  const results = await runWithConcurrency(books, concurrency, (book) => {
+    const label = path.basename(book)
+    return convertOne(book, {
+      ...convertOptions,
+      onProgress: labelProgress(label, convertOptions.onProgress),
+      confirm:
+        confirm &&
+        ((request) =>
+          confirm({ ...request, message: `[${label}] ${request.message}` })),
+      claimOutDir: (outDir) => {
+        const owner = claimedOutDirs.get(outDir)
+        if (owner && owner !== book) {
+          throw new CliError(
+            `Output directory ${outDir} is also the target of ${owner} in this batch. Convert one of them separately with --out-dir.`,
+            5,
+          )
+        }
+        claimedOutDirs.set(outDir, book)
+      },
+    })
+  })
+  const failures = results.filter((result) => result.status === 'failed')
+  const summary: BatchSummary = {
+    results,
+    converted: results.length - failures.length,
+    failed: failures.length,
+    exitCode: failures[0]?.exitCode ?? 0,
+  }
+
+  if (reportPath) {
+    writeReport(reportPath, summary)
+  }
+
+  return summary
+}
+
+/** Render the batch results as a table, with book paths relative to `cwd`. */
+export function formatBatchSummary(summary: BatchSummary, cwd: string): string {
+  const rows = summary.results.map((result) => [
+    result.status,
+    String(result.exitCode),
+    String(result.chapters),
+    path.relative(cwd, result.input) || result.input,
+    result.outDir ?? (result.error || '').split('\n')[0],
+  ])
+
+  return [
+    formatTable(
+      ['Status', 'Exit', 'Chapters', 'Book', 'Output / Error'],
+      rows,
+    ),
+    '',
+    `${summary.converted} converted, ${summary.failed} failed`,
+  ].join('\n')
+}
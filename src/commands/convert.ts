@@ -3,14 +3,31 @@ import { spawn, spawnSync } from 'node:child_process'
 import os from 'node:os'
 import path from 'node:path'
 import process from 'node:process'
-import { createInterface } from 'node:readline/promises'
+import { loadBoilerplateRules } from '../config/boilerplate-rules'
 import { CALIBRE, calibreInfoMessage } from '../config/calibre'
-import { parseEpubToChapters, slugify } from '../parser'
-import { writeSkill } from '../skill-writer'
-import { CliError } from '../types'
+import { OUTPUT_FORMATS } from '../formats'
+import { extractKeywords } from '../keywords'
+import { hashFile, readManifest } from '../manifest'
+import { compileChapterFilter, parseEpubToChapters, slugify, validateEpub } from '../parser'
+import { createChapterFileName, writeSkill } from '../skill-writer'
+import { parseTemplate } from '../template'
+import {
+  CliError,
+  type BookMetadata,
+  type ChunkOptions,
+  type ChunkUnit,
+  type ConfirmHandler,
+  type ExcludedChapter,
+  type ExitCode,
+  type NormalizeMode,
+  type OutputFormat,
+  type ProgressHandler,
+  type SkillTemplates,
+} from '../types'
+import { MAX_DESCRIPTION_LENGTH, MAX_NAME_LENGTH } from './validate'
 import { distance } from 'fastest-levenshtein'
 
-type ConvertOptions = {
+export type ConvertOptions = {
   outDir?: string
   outParentDir?: string
   skillName?: string
@@ -20,24 +37,160 @@ type ConvertOptions = {
   install?: boolean
   installDir?: string
   maxChapterWords: number
+  maxChapterTokens?: number
+  tocDepth?: number
   filterBoilerplate: boolean
+  rules?: string
+  includeChapters?: string[]
+  excludeChapters?: string[]
   stripImages: boolean
   stripInternalLinks: boolean
+  rewriteInternalLinks?: boolean
   calibreArgs?: string[]
+  normalize?: NormalizeMode
   keepTemp?: boolean
   overwrite?: boolean
+  keepBackup?: boolean
+  update?: boolean
+  searchIndex?: boolean
+  keepExcluded?: boolean
+  chunks?: boolean
+  chunkSize?: number
+  chunkOverlap?: number
+  chunkUnit?: ChunkUnit
+  summaries?: boolean
+  keywords?: boolean
+  template?: string
+  chapterTemplate?: string
+  fullBookTemplate?: string
+  format?: OutputFormat[]
   verbose?: boolean
+  onProgress?: ProgressHandler
+  confirm?: ConfirmHandler
+  // Called with the resolved output directory before anything is written; throw to abort.
+  claimOutDir?: (outDir: string) => void
+  // With --update, options this reports as set by the caller override the recorded ones.
+  isExplicit?: (key: keyof ConvertOptions) => boolean
+}
+
+const ignoreProgress: ProgressHandler = () => {}
+
+const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  size: 400,
+  overlap: 50,
+  unit: 'words',
+}
+const CHUNK_UNITS: ChunkUnit[] = ['words', 'tokens']
+
+// Options recorded in the skill manifest and reused by --update.
+const RECORDED_OPTION_KEYS = [
+  'skillName',
+  'description',
+  'includeFullBook',
+  'chapterPrefix',
+  'maxChapterWords',
+  'maxChapterTokens',
+  'tocDepth',
+  'filterBoilerplate',
+  'rules',
+  'includeChapters',
+  'excludeChapters',
+  'stripImages',
+  'stripInternalLinks',
+  'rewriteInternalLinks',
+  'searchIndex',
+  'keepExcluded',
+  'chunks',
+  'chunkSize',
+  'chunkOverlap',
+  'chunkUnit',
+  'summaries',
+  'keywords',
+  'template',
+  'chapterTemplate',
+  'fullBookTemplate',
+  'format',
+  'calibreArgs',
+  'normalize',
+] as const satisfies readonly (keyof ConvertOptions)[]
+// Recorded options holding file paths; stored absolute so --update works from any directory.
+const RECORDED_PATH_KEYS = [
+  'rules',
+  'template',
+  'chapterTemplate',
+  'fullBookTemplate',
+] as const satisfies readonly (keyof ConvertOptions)[]
+
+export type ConvertResult = {
+  outDir: string
+  chapters: number
+  files: string[]
+  metadata: BookMetadata
+  chapterEntries: {
+    index: number
+    title: string
+    slug: string
+    wordCount: number
+    file: string
+  }[]
+  excluded: ExcludedChapter[]
+  backupDir?: string
+  changed?: string[]
+  removed?: string[]
+}
+
+export type ConvertReport = {
+  status: 'converted' | 'failed'
+  exitCode: ExitCode
+  input: string
+  outDir: string | null
+  files: string[]
+  metadata: BookMetadata | null
+  chapters: ConvertResult['chapterEntries']
+  dropped: ExcludedChapter[]
+  changed?: string[]
+  removed?: string[]
+  error?: string
+}
+
+/** Shorten text to a length limit at a word boundary. */
+function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text
+  }
+  const cut = text.slice(0, maxLength - 1)
+  const wordEnd = cut.lastIndexOf(' ')
+  return `${(wordEnd > 0 ? cut.slice(0, wordEnd) : cut).trimEnd()}…`
 }
 
 function deriveDefaults(
-  title: string | undefined,
-  authors: string[],
+  metadata: BookMetadata,
+  topTerms: string[] = [],
 ): { skillName: string; description: string } {
-  const safeTitle = title?.trim() || 'Untitled Book'
-  const authorText = authors.length > 0 ? authors.join(', ') : 'Unknown Author'
+  const safeTitle = metadata.title?.trim() || 'Untitled Book'
+  // Long titles would exceed the skill format's name limit; `validate` rejects those.
+  const suffix = ' Skill'
+  const skillName = `${truncateAtWord(safeTitle, MAX_NAME_LENGTH - suffix.length)}${suffix}`
+  // The book's own blurb describes it better than generated text.
+  if (metadata.description) {
+    return {
+      skillName,
+      description: truncateAtWord(
+        metadata.description,
+        MAX_DESCRIPTION_LENGTH,
+      ),
+    }
+  }
+
+  const authorText =
+    metadata.authors.length > 0
+      ? metadata.authors.join(', ')
+      : 'Unknown Author'
+  const covering =
+    topTerms.length > 0 ? `, covering ${topTerms.join(', ')}` : ''
   return {
-    skillName: `${safeTitle} Skill`,
-    description: `Reference skill generated from "${safeTitle}" by ${authorText}`,
+    skillName,
+    description: `Reference skill generated from "${safeTitle}" by ${authorText}${covering}`,
   }
 }
 
@@ -195,35 +348,35 @@ function resolveCalibreCommand(): string | undefined {
   return undefined
 }
 
-async function ensureCalibreAvailable(verbose = false): Promise<string> {
+async function ensureCalibreAvailable(
+  verbose: boolean,
+  emit: ProgressHandler,
+  confirm?: ConfirmHandler,
+): Promise<string> {
   const existing = resolveCalibreCommand()
   if (existing) {
     return existing
   }
 
   if (verbose) {
-    console.error(calibreInfoMessage())
+    emit({ type: 'detail', message: calibreInfoMessage() })
   }
 
   const { brewInstallHint } = CALIBRE
-  if (
-    !process.stdin.isTTY ||
-    !process.stdout.isTTY ||
-    process.platform !== 'darwin'
-  ) {
+  if (!confirm || process.platform !== 'darwin') {
     throw new CliError(
       `Calibre is required but not found. ${calibreInfoMessage()} Install it and retry: ${brewInstallHint}`,
       3,
     )
   }
 
-  const rl = createInterface({ input: process.stdin, output: process.stdout })
-  const answer = await rl.question(
-    `${calibreInfoMessage()}\nCalibre is not installed. Install it now with Homebrew (${brewInstallHint})? [Y/n] `,
-  )
-  rl.close()
+  const accepted = await confirm({
+    id: 'install-calibre',
+    message: `${calibreInfoMessage()}\nCalibre is not installed. Install it now with Homebrew (${brewInstallHint})?`,
+    defaultAnswer: true,
+  })
 
-  if (answer.trim().toLowerCase().startsWith('n')) {
+  if (!accepted) {
     throw new CliError(
       'Calibre installation declined. Please install Calibre and retry.',
       3,
@@ -237,9 +390,17 @@ async function ensureCalibreAvailable(verbose = false): Promise<string> {
     )
   }
 
-  const install = spawnSync('brew', ['install', '--cask', 'calibre'], {
-    stdio: 'inherit',
-  })
+  const install = await runStreamingCommand(
+    'brew',
+    ['install', '--cask', 'calibre'],
+    {
+      verbose: true,
+      showBasicStatus: false,
+      basicLabel: 'Homebrew install',
+      source: 'brew',
+      emit,
+    },
+  )
   const resolved = resolveCalibreCommand()
   if (install.status !== 0 || !resolved) {
     throw new CliError(
@@ -251,10 +412,16 @@ async function ensureCalibreAvailable(verbose = false): Promise<string> {
   return resolved
 }
 
-async function runCalibreCommand(
+async function runStreamingCommand(
   command: string,
   args: string[],
-  options: { verbose: boolean; showBasicStatus: boolean; basicLabel: string },
+  options: {
+    verbose: boolean
+    showBasicStatus: boolean
+    basicLabel: string
+    source: 'calibre' | 'brew'
+    emit: ProgressHandler
+  },
 ): Promise<{ status: number | null; output: string }> {
   return new Promise((resolve, reject) => {
     const child = spawn(command, args, {
@@ -266,14 +433,16 @@ async function runCalibreCommand(
     let startedAt = Date.now()
 
     if (!options.verbose && options.showBasicStatus) {
-      console.log(
-        `${options.basicLabel} (this can take a while for large books)...`,
-      )
+      options.emit({
+        type: 'status',
+        message: `${options.basicLabel} (this can take a while for large books)...`,
+      })
       heartbeat = setInterval(() => {
         const elapsedSeconds = Math.floor((Date.now() - startedAt) / 1000)
-        console.log(
-          `${options.basicLabel} still running (${elapsedSeconds}s elapsed)...`,
-        )
+        options.emit({
+          type: 'status',
+          message: `${options.basicLabel} still running (${elapsedSeconds}s elapsed)...`,
+        })
       }, 20000)
     }
 
@@ -281,11 +450,12 @@ async function runCalibreCommand(
       const text = chunk.toString('utf8')
       outputChunks.push(text)
       if (options.verbose) {
-        if (target === 'stdout') {
-          process.stdout.write(text)
-        } else {
-          process.stderr.write(text)
-        }
+        options.emit({
+          type: 'output',
+          source: options.source,
+          stream: target,
+          text,
+        })
       }
     }
 
@@ -306,9 +476,15 @@ async function runCalibreCommand(
       if (!options.verbose && options.showBasicStatus) {
         const elapsedSeconds = Math.floor((Date.now() - startedAt) / 1000)
         if (status === 0) {
-          console.log(`${options.basicLabel} completed (${elapsedSeconds}s).`)
+          options.emit({
+            type: 'status',
+            message: `${options.basicLabel} completed (${elapsedSeconds}s).`,
+          })
         } else {
-          console.log(`${options.basicLabel} failed (${elapsedSeconds}s).`)
+          options.emit({
+            type: 'status',
+            message: `${options.basicLabel} failed (${elapsedSeconds}s).`,
+          })
         }
       }
       resolve({ status, output: outputChunks.join('') })
@@ -322,6 +498,7 @@ async function normalizeInputWithCalibre(
   normalizedPath: string,
   calibreArgs: string[] = [],
   verbose = false,
+  emit: ProgressHandler = ignoreProgress,
 ): Promise<void> {
   const conversionArgs = [
     inputBook,
@@ -331,11 +508,17 @@ async function normalizeInputWithCalibre(
     '0',
     ...calibreArgs,
   ]
-  const conversion = await runCalibreCommand(ebookConvertCmd, conversionArgs, {
-    verbose,
-    showBasicStatus: true,
-    basicLabel: 'Calibre conversion',
-  })
+  const conversion = await runStreamingCommand(
+    ebookConvertCmd,
+    conversionArgs,
+    {
+      verbose,
+      showBasicStatus: true,
+      basicLabel: 'Calibre conversion',
+      source: 'calibre',
+      emit,
+    },
+  )
 
   const looksLikeQtNeonError = (text: string): boolean => {
     const normalized = text.toLowerCase()
@@ -355,20 +538,23 @@ async function normalizeInputWithCalibre(
       process.arch === 'arm64' &&
       looksLikeQtNeonError(details)
     ) {
-      const rosetta = await runCalibreCommand(
+      const rosetta = await runStreamingCommand(
         '/usr/bin/arch',
         ['-x86_64', ebookConvertCmd, ...conversionArgs],
         {
           verbose,
           showBasicStatus: true,
           basicLabel: 'Calibre Rosetta retry',
+          source: 'calibre',
+          emit,
         },
       )
 
       if (rosetta.status === 0) {
-        console.log(
-          'Retried Calibre under Rosetta (x86_64) after Qt NEON error.',
-        )
+        emit({
+          type: 'status',
+          message: 'Retried Calibre under Rosetta (x86_64) after Qt NEON error.',
+        })
         return
       }
 
@@ -383,8 +569,55 @@ async function normalizeInputWithCalibre(
   }
 
   if (verbose) {
-    console.log(`Calibre normalized input to: ${normalizedPath}`)
-    console.log(`Calibre args: ${conversionArgs.slice(2).join(' ')}`)
+    emit({
+      type: 'detail',
+      message: `Calibre normalized input to: ${normalizedPath}`,
+    })
+    emit({
+      type: 'detail',
+      message: `Calibre args: ${conversionArgs.slice(2).join(' ')}`,
+    })
+  }
+}
+
+const NORMALIZE_MODES: NormalizeMode[] = ['auto', 'always', 'never']
+
+/**
+ * Decide whether the input can skip Calibre and be parsed as-is.
+ * Returns the EPUB version for the native path, or undefined when Calibre should run.
+ */
+function resolveNativeEpub(
+  inputBook: string,
+  mode: NormalizeMode,
+  verbose = false,
+  emit: ProgressHandler = ignoreProgress,
+): '2' | '3' | undefined {
+  if (mode === 'always') {
+    return undefined
+  }
+
+  const hasEpubExtension = path.extname(inputBook).toLowerCase() === '.epub'
+  if (mode === 'auto' && !hasEpubExtension) {
+    return undefined
+  }
+
+  try {
+    return validateEpub(inputBook).version
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    if (mode === 'never') {
+      throw new CliError(
+        `Input is not a valid EPUB and --normalize never disables Calibre: ${reason}`,
+        2,
+      )
+    }
+    if (verbose) {
+      emit({
+        type: 'detail',
+        message: `EPUB validation failed, falling back to Calibre: ${reason}`,
+      })
+    }
+    return undefined
   }
 }
 
@@ -405,7 +638,9 @@ function looksLikeSkillDir(dirPath: string): boolean {
  */
 async function ensureSafeOverwrite(
   outDir: string,
-  overwrite?: boolean,
+  overwrite: boolean | undefined,
+  emit: ProgressHandler,
+  confirm?: ConfirmHandler,
 ): Promise<void> {
   if (!overwrite || !fs.existsSync(outDir)) {
     return
@@ -413,37 +648,160 @@ async function ensureSafeOverwrite(
 
   const isSkillDir = looksLikeSkillDir(outDir)
   if (!isSkillDir) {
-    console.warn(
-      `\n⚠️  Warning: --overwrite will replace a non-skill directory: ${outDir}`,
-    )
-    console.warn(
-      '   This directory does not appear to be an injectbook skill (no SKILL.md or references/ found).',
-    )
+    emit({
+      type: 'warning',
+      message: `--overwrite will replace a non-skill directory: ${outDir}`,
+    })
+    emit({
+      type: 'warning',
+      message:
+        'This directory does not appear to be an injectbook skill (no SKILL.md or references/ found).',
+    })
 
-    if (!process.stdin.isTTY || !process.stdout.isTTY) {
+    if (!confirm) {
       throw new CliError(
         'Target directory is not a skill. Cannot prompt for confirmation in non-interactve environment.',
         2,
       )
     }
 
-    const rl = createInterface({ input: process.stdin, output: process.stdout })
-    const answer = await rl.question(
-      '   Are you sure you want to completely overwrite this directory? [y/N] ',
-    )
-    rl.close()
+    const accepted = await confirm({
+      id: 'overwrite-non-skill-dir',
+      message: 'Are you sure you want to completely overwrite this directory?',
+      defaultAnswer: false,
+    })
 
-    if (!answer.trim().toLowerCase().startsWith('y')) {
+    if (!accepted) {
       throw new CliError('Overwrite cancelled by user.', 2)
     }
   }
 }
 
-export async function convertBook(
+export type EpubInputOptions = Pick<
+  ConvertOptions,
+  'normalize' | 'calibreArgs' | 'keepTemp' | 'verbose' | 'onProgress' | 'confirm'
+>
+
+/**
+ * Resolve the input book to an EPUB (natively or through Calibre), hand its path to `run`,
+ * and clean up any temporary Calibre output afterwards (unless --keep-temp applies).
+ */
+export async function withEpubInput<T>(
   inputBook: string,
-  options: ConvertOptions,
-): Promise<{ outDir: string; chapters: number }> {
+  options: EpubInputOptions,
+  run: (epubPath: string) => Promise<T>,
+): Promise<T> {
   assertReadableFile(inputBook)
+  const emit = options.onProgress ?? ignoreProgress
+
+  const normalizeMode = options.normalize ?? 'auto'
+  if (!NORMALIZE_MODES.includes(normalizeMode)) {
+    throw new CliError(
+      `Invalid --normalize value: ${normalizeMode}. Use one of: ${NORMALIZE_MODES.join(', ')}`,
+      2,
+    )
+  }
+
+  const nativeEpubVersion = resolveNativeEpub(
+    inputBook,
+    normalizeMode,
+    options.verbose,
+    emit,
+  )
+  const ebookConvertCmd = nativeEpubVersion
+    ? undefined
+    : await ensureCalibreAvailable(
+        Boolean(options.verbose),
+        emit,
+        options.confirm,
+      )
+
+  let tempDir: string | undefined
+  let conversionSucceeded = false
+
+  try {
+    let epubPath: string
+    if (ebookConvertCmd) {
+      if (options.verbose) {
+        emit({
+          type: 'detail',
+          message: `Converting with Calibre (--normalize ${normalizeMode}): ${inputBook}`,
+        })
+      } else {
+        emit({
+          type: 'status',
+          message: `Starting conversion: ${path.basename(inputBook)}`,
+        })
+      }
+
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'injectbook-calibre-'))
+      epubPath = path.join(tempDir, 'normalized.epub')
+
+      await normalizeInputWithCalibre(
+        ebookConvertCmd,
+        inputBook,
+        epubPath,
+        options.calibreArgs,
+        options.verbose,
+        emit,
+      )
+      if (!options.verbose) {
+        emit({ type: 'status', message: 'Parsing normalized book content...' })
+      }
+    } else {
+      if (options.verbose) {
+        emit({
+          type: 'detail',
+          message: `Parsing EPUB ${nativeEpubVersion} directly (Calibre skipped): ${inputBook}`,
+        })
+      } else {
+        emit({
+          type: 'status',
+          message: `Starting conversion: ${path.basename(inputBook)}`,
+        })
+        emit({ type: 'status', message: 'Parsing EPUB content...' })
+      }
+      epubPath = inputBook
+    }
+
+    const result = await run(epubPath)
+    conversionSucceeded = true
+    return result
+  } catch (error) {
+    if (options.keepTemp && tempDir && fs.existsSync(tempDir)) {
+      emit({
+        type: 'warning',
+        message: `Kept temporary conversion files at: ${tempDir}`,
+      })
+    }
+
+    if (error instanceof CliError) {
+      throw error
+    }
+
+    const message = error instanceof Error ? error.message : 'unknown error'
+    throw new CliError(`Book conversion failed: ${message}`, 4)
+  } finally {
+    if (
+      tempDir &&
+      fs.existsSync(tempDir) &&
+      (conversionSucceeded || !options.keepTemp)
+    ) {
+      fs.rmSync(tempDir, { recursive: true, force: true })
+    }
+  }
+}
+
+export function validateParseOptions(
+  options: Pick<
+    ConvertOptions,
+    | 'maxChapterWords'
+    | 'maxChapterTokens'
+    | 'tocDepth'
+    | 'includeChapters'
+    | 'excludeChapters'
+  >,
+): void {
   if (
     !Number.isFinite(options.maxChapterWords) ||
     options.maxChapterWords <= 0
@@ -454,45 +812,201 @@ export async function convertBook(
     )
   }
 
-  const ebookConvertCmd = await ensureCalibreAvailable(options.verbose)
+  if (
+    options.maxChapterTokens !== undefined &&
+    (!Number.isFinite(options.maxChapterTokens) ||
+      options.maxChapterTokens <= 0)
+  ) {
+    throw new CliError(
+      `Invalid --max-chapter-tokens value: ${options.maxChapterTokens}`,
+      2,
+    )
+  }
 
-  let tempDir: string | undefined
-  let conversionSucceeded = false
+  if (
+    options.tocDepth !== undefined &&
+    (!Number.isInteger(options.tocDepth) || options.tocDepth <= 0)
+  ) {
+    throw new CliError(`Invalid --toc-depth value: ${options.tocDepth}`, 2)
+  }
 
-  try {
-    if (options.verbose) {
-      console.log(`Converting with Calibre: ${inputBook}`)
-    } else {
-      console.log(`Starting conversion: ${path.basename(inputBook)}`)
+  for (const pattern of options.includeChapters ?? []) {
+    compileChapterFilter(pattern, '--include-chapter')
+  }
+  for (const pattern of options.excludeChapters ?? []) {
+    compileChapterFilter(pattern, '--exclude-chapter')
+  }
+}
+
+export function validateChunkOptions(
+  options: Pick<ConvertOptions, 'chunkSize' | 'chunkOverlap' | 'chunkUnit'>,
+): ChunkOptions {
+  const chunkOptions: ChunkOptions = {
+    size: options.chunkSize ?? DEFAULT_CHUNK_OPTIONS.size,
+    overlap: options.chunkOverlap ?? DEFAULT_CHUNK_OPTIONS.overlap,
+    unit: options.chunkUnit ?? DEFAULT_CHUNK_OPTIONS.unit,
+  }
+
+  if (!Number.isInteger(chunkOptions.size) || chunkOptions.size <= 0) {
+    throw new CliError(`Invalid --chunk-size value: ${options.chunkSize}`, 2)
+  }
+  if (
+    !Number.isInteger(chunkOptions.overlap) ||
+    chunkOptions.overlap < 0 ||
+    chunkOptions.overlap >= chunkOptions.size
+  ) {
+    throw new CliError(
+      `Invalid --chunk-overlap value: ${options.chunkOverlap}. It must be at least 0 and smaller than --chunk-size`,
+      2,
+    )
+  }
+  if (!CHUNK_UNITS.includes(chunkOptions.unit)) {
+    throw new CliError(
+      `Invalid --chunk-unit value: ${options.chunkUnit}. Use one of: ${CHUNK_UNITS.join(', ')}`,
+      2,
+    )
+  }
+  return chunkOptions
+}
+
+export function validateFormats(
+  options: Pick<ConvertOptions, 'format'>,
+): OutputFormat[] {
+  const formats = options.format?.length ? options.format : ['skill' as const]
+  for (const format of formats) {
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new CliError(
+        `Invalid --format value: ${format}. Use one of: ${OUTPUT_FORMATS.join(', ')}`,
+        2,
+      )
     }
+  }
+  return [...new Set(formats)]
+}
 
-    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'injectbook-calibre-'))
-    const normalizedPath = path.join(tempDir, 'normalized.epub')
+/**
+ * Read the --template, --chapter-template and --full-book-template files and check
+ * their syntax before any parsing work starts.
+ */
+function loadTemplates(options: ConvertOptions): SkillTemplates {
+  const sources: [keyof SkillTemplates, string, string | undefined][] = [
+    ['skill', '--template', options.template],
+    ['chapter', '--chapter-template', options.chapterTemplate],
+    ['fullBook', '--full-book-template', options.fullBookTemplate],
+  ]
+  const templates: SkillTemplates = {}
+  for (const [key, flag, templatePath] of sources) {
+    if (!templatePath) {
+      continue
+    }
+    let source: string
+    try {
+      source = fs.readFileSync(templatePath, 'utf8')
+    } catch {
+      throw new CliError(
+        `${flag} file is missing or not readable: ${templatePath}`,
+        2,
+      )
+    }
+    parseTemplate(source, templatePath)
+    templates[key] = source
+  }
+  return templates
+}
 
-    await normalizeInputWithCalibre(
-      ebookConvertCmd,
-      inputBook,
-      normalizedPath,
-      options.calibreArgs,
-      options.verbose,
+/**
+ * With --update, replace the recorded options with the values stored in the
+ * existing skill's manifest, so the skill is regenerated the same way.
+ * Options the caller reports as explicit (flags given on the command line)
+ * keep their requested values.
+ */
+function applyRecordedOptions(options: ConvertOptions): ConvertOptions {
+  if (!options.update) {
+    return options
+  }
+  if (!options.outDir) {
+    throw new CliError(
+      '--update needs --out-dir (or an alias) pointing at the skill to update',
+      2,
     )
-    if (!options.verbose) {
-      console.log('Parsing normalized book content...')
+  }
+
+  const recorded = readManifest(path.resolve(options.outDir)).options
+  const isExplicit = options.isExplicit ?? (() => false)
+  const resolved: Record<string, unknown> = { ...options }
+  for (const key of RECORDED_OPTION_KEYS) {
+    if (Object.hasOwn(recorded, key) && !isExplicit(key)) {
+      resolved[key] = recorded[key] ?? undefined
     }
+  }
+  return resolved as ConvertOptions
+}
 
-    const { metadata, chapters } = parseEpubToChapters(normalizedPath, {
+function recordOptions(options: ConvertOptions): Record<string, unknown> {
+  const recorded: Record<string, unknown> = Object.fromEntries(
+    RECORDED_OPTION_KEYS.map((key) => [key, options[key] ?? null]),
+  )
+  for (const key of RECORDED_PATH_KEYS) {
+    const value = options[key]
+    if (value) {
+      recorded[key] = path.resolve(value)
+    }
+  }
+  return recorded
+}
+
+export async function convertBook(
+  inputBook: string,
+  requestedOptions: ConvertOptions,
+): Promise<ConvertResult> {
+  assertReadableFile(inputBook)
+  const options = applyRecordedOptions(requestedOptions)
+  validateParseOptions(options)
+  const chunkOptions = validateChunkOptions(options)
+  const templates = loadTemplates(options)
+  const formats = validateFormats(options)
+  const rules = options.rules
+    ? loadBoilerplateRules(options.rules)
+    : undefined
+  const emit = options.onProgress ?? ignoreProgress
+
+  const run = async (epubPath: string): Promise<ConvertResult> => {
+    const { metadata, chapters, excluded, assets, termIndex } = parseEpubToChapters(epubPath, {
       maxChapterWords: options.maxChapterWords,
+      maxChapterTokens: options.maxChapterTokens,
+      tocDepth: options.tocDepth,
       filterBoilerplate: options.filterBoilerplate,
+      rules,
+      includeChapters: options.includeChapters,
+      excludeChapters: options.excludeChapters,
       stripImages: options.stripImages,
       stripInternalLinks: options.stripInternalLinks,
+      rewriteInternalLinks: options.rewriteInternalLinks,
+      keepExcluded: options.keepExcluded,
     })
-    if (!options.verbose) {
-      console.log(
-        `Parsed ${chapters.length} chapter(s). Writing skill files...`,
-      )
+    if (options.verbose) {
+      emit({
+        type: 'detail',
+        message: `Dropped ${excluded.length} chapter(s)`,
+      })
+      for (const chapter of excluded) {
+        emit({
+          type: 'detail',
+          message: `  [${chapter.ruleId}] ${chapter.title} (${chapter.sourceFile}, ${chapter.wordCount} words): ${chapter.reason}`,
+        })
+      }
+    } else {
+      emit({
+        type: 'status',
+        message: `Parsed ${chapters.length} chapter(s). Writing skill files...`,
+      })
     }
 
-    const defaults = deriveDefaults(metadata.title, metadata.authors)
+    const keywords = Boolean(options.keywords)
+    const defaults = deriveDefaults(
+      metadata,
+      keywords ? extractKeywords(chapters).book : [],
+    )
     const defaultSkillDirName = `${slugify(metadata.title || 'book')}-skill`
 
     // Resolve output directory based on options
@@ -509,46 +1023,110 @@ export async function convertBook(
     } else {
       outputDir = path.resolve(defaultSkillDirName)
     }
+    options.claimOutDir?.(outputDir)
 
     // Warn if overwriting non-skill directory
-    await ensureSafeOverwrite(outputDir, options.overwrite)
+    await ensureSafeOverwrite(
+      outputDir,
+      options.overwrite,
+      emit,
+      options.confirm,
+    )
 
-    writeSkill(metadata, chapters, {
-      outDir: outputDir,
-      skillName: options.skillName || defaults.skillName,
-      description: options.description || defaults.description,
-      chapterPrefix: options.chapterPrefix,
-      includeFullBook: options.includeFullBook,
-      overwrite: Boolean(options.overwrite),
-    })
+    const skillName = options.skillName || defaults.skillName
+    const description = options.description || defaults.description
+    const written = writeSkill(
+      metadata,
+      chapters,
+      {
+        outDir: outputDir,
+        skillName,
+        description,
+        chapterPrefix: options.chapterPrefix,
+        includeFullBook: options.includeFullBook,
+        overwrite: Boolean(options.overwrite),
+        keepBackup: options.keepBackup,
+        update: options.update,
+        searchIndex: options.searchIndex,
+        chunks: options.chunks ? chunkOptions : undefined,
+        summaries: options.summaries,
+        keywords,
+        templates,
+        formats,
+        excluded,
+        source: { file: path.basename(inputBook), sha256: hashFile(inputBook) },
+        recordedOptions: recordOptions({ ...options, skillName, description }),
+      },
+      assets,
+      termIndex,
+    )
     if (!options.verbose) {
-      console.log('Skill files written.')
+      emit({ type: 'status', message: 'Skill files written.' })
+    }
+    if (written.backupDir) {
+      emit({
+        type: 'status',
+        message: `Kept previous skill at: ${written.backupDir}`,
+      })
     }
-
-    conversionSucceeded = true
 
     return {
       outDir: outputDir,
       chapters: chapters.length,
+      files: written.files,
+      metadata,
+      chapterEntries: chapters.map((chapter) => ({
+        index: chapter.index,
+        title: chapter.title,
+        slug: chapter.slug,
+        wordCount: chapter.wordCount,
+        file: `references/${createChapterFileName(options.chapterPrefix, chapter)}`,
+      })),
+      // Chapter content kept for references/_excluded/ stays out of the result.
+      excluded: excluded.map(({ markdown: _markdown, ...chapter }) => chapter),
+      backupDir: written.backupDir,
+      changed: written.changed,
+      removed: written.removed,
     }
-  } catch (error) {
-    if (options.keepTemp && tempDir && fs.existsSync(tempDir)) {
-      console.error(`Kept temporary conversion files at: ${tempDir}`)
-    }
+  }
 
-    if (error instanceof CliError) {
-      throw error
-    }
+  return withEpubInput(inputBook, options, run)
+}
 
-    const message = error instanceof Error ? error.message : 'unknown error'
-    throw new CliError(`Book conversion failed: ${message}`, 4)
-  } finally {
-    if (
-      tempDir &&
-      fs.existsSync(tempDir) &&
-      (conversionSucceeded || !options.keepTemp)
-    ) {
-      fs.rmSync(tempDir, { recursive: true, force: true })
+/**
+ * Build the single JSON document printed by `convert --json`, for both
+ * successful conversions and failures.
+ */
+export function buildConvertReport(
+  inputBook: string,
+  outcome: { result: ConvertResult } | { error: unknown },
+): ConvertReport {
+  if ('result' in outcome) {
+    const { result } = outcome
+    return {
+      status: 'converted',
+      exitCode: 0,
+      input: inputBook,
+      outDir: result.outDir,
+      files: result.files,
+      metadata: result.metadata,
+      chapters: result.chapterEntries,
+      dropped: result.excluded,
+      changed: result.changed,
+      removed: result.removed,
     }
   }
+
+  const { error } = outcome
+  return {
+    status: 'failed',
+    exitCode: error instanceof CliError ? error.code : 4,
+    input: inputBook,
+    outDir: null,
+    files: [],
+    metadata: null,
+    chapters: [],
+    dropped: [],
+    error: error instanceof Error ? error.message : 'unknown error',
+  }
 }
@@ -0,0 +1,131 @@
+import { loadBoilerplateRules } from '../config/boilerplate-rules'
+import { inspectEpub, type EpubInspection } from '../parser'
+import { formatTable } from '../text-table'
+import {
+  validateParseOptions,
+  withEpubInput,
+  type ConvertOptions,
+} from './convert'
+
+export type InspectOptions = Pick<
+  ConvertOptions,
+  | 'maxChapterWords'
+  | 'maxChapterTokens'
+  | 'tocDepth'
+  | 'filterBoilerplate'
+  | 'rules'
+  | 'includeChapters'
+  | 'excludeChapters'
+  | 'stripImages'
+  | 'stripInternalLinks'
+  | 'rewriteInternalLinks'
+  | 'calibreArgs'
+  | 'normalize'
+  | 'keepTemp'
+  | 'verbose'
+  | 'onProgress'
+  | 'confirm'
+>
+
+/**
+ * Parse a book exactly like `convert` would, without writing any skill files.
+ */
+export async function inspectBook(
+  inputBook: string,
+  options: InspectOptions,
+): Promise<EpubInspection> {
+  validateParseOptions(options)
+  const rules = options.rules
+    ? loadBoilerplateRules(options.rules)
+    : undefined
+
+  return withEpubInput(
+    inputBook,
+    options,
+    async (epubPath) =>
+      inspectEpub(epubPath, {
+        maxChapterWords: options.maxChapterWords,
+        maxChapterTokens: options.maxChapterTokens,
+        tocDepth: options.tocDepth,
+        filterBoilerplate: options.filterBoilerplate,
+        rules,
+        includeChapters: options.includeChapters,
+        excludeChapters: options.excludeChapters,
+        stripImages: options.stripImages,
+        stripInternalLinks: options.stripInternalLinks,
+        rewriteInternalLinks: options.rewriteInternalLinks,
+      }),
+  )
+}
+
+function listOrNone(values: string[]): string {
+  return values.length > 0 ? values.join(', ') : 'None'
+}
+
+export function formatInspection(inspection: EpubInspection): string {
+  const { metadata } = inspection
+  const sections: string[] = []
+
+  sections.push(
+    [
+      'Metadata',
+      `  Title: ${metadata.title || 'Unknown'}`,
+      `  Authors: ${listOrNone(metadata.authors)}`,
+      `  Language: ${metadata.language || 'Unknown'}`,
+      `  Publisher: ${metadata.publisher || 'Unknown'}`,
+      `  Tags: ${listOrNone(metadata.tags)}`,
+    ].join('\n'),
+  )
+
+  sections.push(
+    `Spine (${inspection.spine.length} item(s))\n${formatTable(
+      ['#', 'In TOC', 'Href', 'Media type'],
+      inspection.spine.map((item, index) => [
+        String(index + 1),
+        item.inToc ? 'yes' : 'no',
+        item.href || `(missing manifest item ${item.idref})`,
+        item.mediaType || '',
+      ]),
+    )}`,
+  )
+
+  const tocLines = inspection.toc.map(
+    (entry) =>
+      `${'  '.repeat(entry.depth)}- ${entry.title}${entry.href ? ` -> ${entry.href}` : ''}`,
+  )
+  sections.push(
+    [
+      `TOC (${inspection.tocSource}, ${inspection.toc.length} entr${inspection.toc.length === 1 ? 'y' : 'ies'})`,
+      ...tocLines,
+    ].join('\n'),
+  )
+
+  sections.push(
+    `Chapters (${inspection.chapters.length})\n${formatTable(
+      ['#', 'Words', 'Title', 'Source'],
+      inspection.chapters.map((chapter) => [
+        String(chapter.index),
+        String(chapter.wordCount),
+        `${'  '.repeat(Math.max(0, (chapter.depth ?? 1) - 1))}${chapter.title}`,
+        chapter.sourceFile,
+      ]),
+    )}`,
+  )
+
+  sections.push(
+    inspection.excluded.length === 0
+      ? 'Dropped by boilerplate rules (0)'
+      : `Dropped by boilerplate rules (${inspection.excluded.length})\n${formatTable(
+          ['Rule', 'Words', 'Title', 'Source', 'Reason'],
+          inspection.excluded.map((chapter) => [
+            chapter.ruleId,
+            String(chapter.wordCount),
+            chapter.title,
+            chapter.sourceFile,
+            chapter.reason,
+          ]),
+        )}`,
+  )
+
+  return sections.join('\n\n')
+}
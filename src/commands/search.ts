@@ -0,0 +1,110 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import {
+  rankPassages,
+  SEARCH_INDEX_PATH,
+  type SearchIndex,
+} from '../search-index'
+import { CliError } from '../types'
+
+export type SearchOptions = {
+  limit: number
+}
+
+export type SearchHit = {
+  file: string
+  line: number
+  endLine: number
+  headingPath: string[]
+  score: number
+  text: string
+}
+
+function readSearchIndex(skillDir: string): SearchIndex {
+  const indexPath = path.join(skillDir, SEARCH_INDEX_PATH)
+  if (!fs.existsSync(indexPath)) {
+    throw new CliError(
+      `No search index found at ${indexPath}. Convert the book with --search-index first.`,
+      2,
+    )
+  }
+
+  let index: Partial<SearchIndex>
+  try {
+    index = JSON.parse(fs.readFileSync(indexPath, 'utf8'))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'unknown error'
+    throw new CliError(`Could not read search index ${indexPath}: ${message}`, 2)
+  }
+
+  if (index.version !== 1 || !index.passages || !index.terms || !index.params) {
+    throw new CliError(`Unsupported or invalid search index: ${indexPath}`, 2)
+  }
+  return index as SearchIndex
+}
+
+/**
+ * Rank the passages of a skill's search index against a query. Passage text is read
+ * back from the chapter files using the offsets recorded in the index.
+ */
+export function searchSkill(
+  skillDir: string,
+  query: string,
+  options: SearchOptions,
+): SearchHit[] {
+  if (!Number.isInteger(options.limit) || options.limit < 1) {
+    throw new CliError('--limit must be a positive integer', 2)
+  }
+  if (!query.trim()) {
+    throw new CliError('Search query must not be empty', 2)
+  }
+
+  const index = readSearchIndex(skillDir)
+  const contents = new Map<string, string>()
+  const readFile = (file: string): string => {
+    if (!contents.has(file)) {
+      const filePath = path.join(skillDir, file)
+      contents.set(
+        file,
+        fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '',
+      )
+    }
+    return contents.get(file) || ''
+  }
+
+  return rankPassages(index, query, options.limit).map(
+    ({ passage, score }) => ({
+      file: passage.file,
+      line: passage.line,
+      endLine: passage.endLine,
+      headingPath: passage.headingPath,
+      score: Number(score.toFixed(4)),
+      text: readFile(passage.file).slice(
+        passage.offset,
+        passage.offset + passage.length,
+      ),
+    }),
+  )
+}
+
+function preview(text: string, maxLength = 240): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > maxLength ? `${flat.slice(0, maxLength - 1)}…` : flat
+}
+
+export function formatSearchResults(hits: SearchHit[]): string {
+  if (hits.length === 0) {
+    return 'No matching passages.'
+  }
+
+  return hits
+    .map((hit, position) => {
+      const heading =
+        hit.headingPath.length > 0 ? ` ${hit.headingPath.join(' > ')}` : ''
+      return [
+        `${position + 1}. ${hit.file}:${hit.line}${heading} (score ${hit.score.toFixed(2)})`,
+        `   ${preview(hit.text)}`,
+      ].join('\n')
+    })
+    .join('\n\n')
+}
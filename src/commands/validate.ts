@@ -0,0 +1,329 @@
+import fs from "node:fs";
+import path from "node:path";
+import { parseDocument } from "yaml";
+import { EXCLUDED_DIR } from "../skill-writer";
+import { CliError } from "../types";
+
+// Limits of the agent skill format for the SKILL.md frontmatter.
+export const MAX_NAME_LENGTH = 64;
+export const MAX_DESCRIPTION_LENGTH = 1024;
+// Agents load SKILL.md whole; past this length the index should move into references/.
+const MAX_SKILL_MD_LINES = 500;
+const FRONTMATTER_FILE = /\.(md|mdc)$/;
+
+export type ValidateOptions = {
+  maxWords: number;
+};
+
+export type ValidationIssue = {
+  severity: "error" | "warning";
+  rule: string;
+  file: string;
+  line?: number;
+  message: string;
+};
+
+export type ValidationReport = {
+  skillDir: string;
+  files: number;
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+};
+
+type Frontmatter = {
+  data: Record<string, unknown>;
+  body: string;
+  // 1-based line of the body's first line.
+  bodyLine: number;
+};
+
+function listFiles(skillDir: string, relativeDir = ""): string[] {
+  const entries = fs.readdirSync(path.join(skillDir, relativeDir), {
+    withFileTypes: true
+  });
+  return entries
+    .sort((first, second) => (first.name < second.name ? -1 : 1))
+    .flatMap((entry) => {
+      const relativePath = path.posix.join(relativeDir, entry.name);
+      if (!entry.isDirectory()) {
+        return FRONTMATTER_FILE.test(entry.name) ? [relativePath] : [];
+      }
+      // Assets are binary and dropped chapters are kept only for review; other
+      // hidden directories are not part of any layout.
+      if (
+        relativePath === "references/assets" ||
+        relativePath === EXCLUDED_DIR ||
+        (entry.name.startsWith(".") && entry.name !== ".cursor")
+      ) {
+        return [];
+      }
+      return listFiles(skillDir, relativePath);
+    });
+}
+
+/**
+ * Split off and parse a leading YAML frontmatter block with a real YAML parser.
+ * Returns undefined for files without frontmatter and reports parse errors.
+ */
+function readFrontmatter(
+  file: string,
+  content: string,
+  report: (issue: Omit<ValidationIssue, "file">) => void
+): Frontmatter | undefined {
+  const lines = content.split(/\r?\n/);
+  if (lines[0] !== "---") {
+    return undefined;
+  }
+  const end = lines.findIndex((line, position) => position > 0 && (line === "---" || line === "..."));
+  if (end === -1) {
+    report({
+      severity: "error",
+      rule: "frontmatter-unterminated",
+      line: 1,
+      message: `${file} opens a frontmatter block that is never closed with ---`
+    });
+    return undefined;
+  }
+
+  const document = parseDocument(lines.slice(1, end).join("\n"));
+  for (const error of document.errors) {
+    report({
+      severity: "error",
+      rule: "frontmatter-yaml",
+      line: (error.linePos?.[0].line ?? 0) + 1,
+      message: `Invalid YAML frontmatter: ${error.message.split("\n")[0]}`
+    });
+  }
+  if (document.errors.length > 0) {
+    return undefined;
+  }
+
+  const data: unknown = document.toJS();
+  if (data !== null && (typeof data !== "object" || Array.isArray(data))) {
+    report({
+      severity: "error",
+      rule: "frontmatter-yaml",
+      line: 2,
+      message: "Frontmatter must be a mapping of keys to values"
+    });
+    return undefined;
+  }
+  return {
+    data: (data ?? {}) as Record<string, unknown>,
+    body: lines.slice(end + 1).join("\n"),
+    bodyLine: end + 2
+  };
+}
+
+function checkSkillFields(data: Record<string, unknown>, report: (issue: Omit<ValidationIssue, "file">) => void): void {
+  const limits: [string, number][] = [
+    ["name", MAX_NAME_LENGTH],
+    ["description", MAX_DESCRIPTION_LENGTH]
+  ];
+  for (const [key, limit] of limits) {
+    const value = data[key];
+    if (typeof value !== "string" || !value.trim()) {
+      report({
+        severity: "error",
+        rule: `${key}-missing`,
+        message: `SKILL.md frontmatter needs a non-empty string \`${key}\``
+      });
+    } else if (value.length > limit) {
+      report({
+        severity: "error",
+        rule: `${key}-too-long`,
+        message: `\`${key}\` is ${value.length} characters; the limit is ${limit}`
+      });
+    }
+  }
+}
+
+/** Check that every relative link in SKILL.md points at a file in the skill. */
+function checkLinks(
+  skillDir: string,
+  frontmatter: Frontmatter,
+  report: (issue: Omit<ValidationIssue, "file">) => void
+): void {
+  let fence: string | undefined;
+  frontmatter.body.split("\n").forEach((text, position) => {
+    const marker = /^\s*(`{3,}|~{3,})/.exec(text)?.[1];
+    if (marker && (!fence || marker.startsWith(fence))) {
+      fence = fence ? undefined : marker;
+      return;
+    }
+    if (fence) {
+      return;
+    }
+
+    const links = text.matchAll(/\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g);
+    for (const match of links) {
+      const target = match[1];
+      if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith("#")) {
+        continue;
+      }
+      let filePart: string;
+      try {
+        filePart = decodeURI(target.replace(/[#?].*$/, ""));
+      } catch {
+        report({
+          severity: "error",
+          rule: "broken-link",
+          line: frontmatter.bodyLine + position,
+          message: `Link target has an invalid percent escape: ${target}`
+        });
+        continue;
+      }
+      if (!fs.existsSync(path.join(skillDir, filePart))) {
+        report({
+          severity: "error",
+          rule: "broken-link",
+          line: frontmatter.bodyLine + position,
+          message: `Link target does not exist: ${target}`
+        });
+      }
+    }
+  });
+}
+
+/** Chapter `index:` fields must count up from 1 without gaps or duplicates. */
+function checkIndexSequence(
+  chapters: { file: string; index: unknown }[],
+  report: (issue: ValidationIssue) => void
+): void {
+  const numbered: { file: string; index: number }[] = [];
+  for (const { file, index } of chapters) {
+    if (typeof index === "number" && Number.isInteger(index) && index > 0) {
+      numbered.push({ file, index });
+    } else {
+      report({
+        severity: "error",
+        rule: "index-sequence",
+        file,
+        message: `\`index\` must be a positive integer, got ${JSON.stringify(index)}`
+      });
+    }
+  }
+
+  numbered.sort((first, second) => first.index - second.index || first.file.localeCompare(second.file));
+  let expected = 1;
+  for (const [position, { file, index }] of numbered.entries()) {
+    const previous = numbered[position - 1];
+    if (previous && previous.index === index) {
+      report({
+        severity: "error",
+        rule: "index-sequence",
+        file,
+        message: `\`index: ${index}\` is also used by ${previous.file}`
+      });
+      continue;
+    }
+    if (index !== expected) {
+      const missing = index - expected === 1 ? `${expected}` : `${expected}-${index - 1}`;
+      report({
+        severity: "error",
+        rule: "index-sequence",
+        file,
+        message: `\`index: ${index}\` skips chapter index ${missing}`
+      });
+    }
+    expected = index + 1;
+  }
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Check a generated or hand-edited skill directory: YAML frontmatter in every
+ * markdown file, SKILL.md name and description limits, SKILL.md links, chapter
+ * `index:` order, and file sizes. Size problems are warnings; the rest are errors.
+ */
+export function validateSkill(skillDir: string, options: ValidateOptions): ValidationReport {
+  if (!Number.isInteger(options.maxWords) || options.maxWords < 1) {
+    throw new CliError("--max-words must be a positive integer", 2);
+  }
+  if (!fs.existsSync(skillDir) || !fs.statSync(skillDir).isDirectory()) {
+    throw new CliError(`Skill directory not found: ${skillDir}`, 2);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const files = listFiles(skillDir);
+  const chapters: { file: string; index: unknown }[] = [];
+
+  if (!files.includes("SKILL.md")) {
+    issues.push({
+      severity: "error",
+      rule: "skill-md-missing",
+      file: "SKILL.md",
+      message: "The skill has no SKILL.md"
+    });
+  }
+
+  for (const file of files) {
+    const report = (issue: Omit<ValidationIssue, "file">) => issues.push({ ...issue, file });
+    const content = fs.readFileSync(path.join(skillDir, file), "utf8");
+    const frontmatter = readFrontmatter(file, content, report);
+
+    if (file === "SKILL.md") {
+      if (frontmatter) {
+        checkSkillFields(frontmatter.data, report);
+        checkLinks(skillDir, frontmatter, report);
+      } else if (!content.startsWith("---")) {
+        report({
+          severity: "error",
+          rule: "frontmatter-missing",
+          line: 1,
+          message: "SKILL.md must start with a YAML frontmatter block"
+        });
+      }
+      const lineCount = content.split("\n").length;
+      if (lineCount > MAX_SKILL_MD_LINES) {
+        report({
+          severity: "warning",
+          rule: "skill-md-too-long",
+          message: `SKILL.md has ${lineCount} lines; agents load it whole, keep it under ${MAX_SKILL_MD_LINES}`
+        });
+      }
+      continue;
+    }
+
+    const isChapterFile = /^references\/[^/]+\.md$/.test(file);
+    if (frontmatter && isChapterFile && "index" in frontmatter.data) {
+      chapters.push({ file, index: frontmatter.data.index });
+    }
+    // book_full.md holds the whole book by design.
+    const words = wordCount(frontmatter ? frontmatter.body : content);
+    if (file !== "references/book_full.md" && words > options.maxWords) {
+      report({
+        severity: "warning",
+        rule: "file-too-large",
+        message: `${words} words is more than --max-words ${options.maxWords}`
+      });
+    }
+  }
+
+  checkIndexSequence(chapters, (issue) => issues.push(issue));
+
+  return {
+    skillDir,
+    files: files.length,
+    errors: issues.filter((issue) => issue.severity === "error").length,
+    warnings: issues.filter((issue) => issue.severity === "warning").length,
+    issues
+  };
+}
+
+/** One `file:line: severity [rule] message` line per issue, then a summary line. */
+export function formatValidationReport(report: ValidationReport): string {
+  const lines = report.issues.map((issue) => {
+    const location = issue.line ? `${issue.file}:${issue.line}` : issue.file;
+    return `${location}: ${issue.severity} [${issue.rule}] ${issue.message}`;
+  });
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+  lines.push(
+    `${plural(report.errors, "error")}, ${plural(report.warnings, "warning")} in ${plural(report.files, "file")}`
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,71 @@
+import fs from "node:fs";
+import { CliError, type BoilerplateRuleConfig } from "../types";
+
+const RULE_KEYS = new Set(["id", "kind", "description", "title", "content", "maxWords"]);
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseRule(value: unknown, position: number, rulesPath: string): BoilerplateRuleConfig {
+  const label = `rule ${position + 1} in ${rulesPath}`;
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new CliError(`Invalid ${label}: expected an object`, 2);
+  }
+
+  const rule = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(rule).filter((key) => !RULE_KEYS.has(key));
+  if (unknownKeys.length > 0) {
+    throw new CliError(`Unknown keys in ${label}: ${unknownKeys.join(", ")}. Supported: ${[...RULE_KEYS].join(", ")}`, 2);
+  }
+  if (typeof rule.id !== "string" || !rule.id.trim()) {
+    throw new CliError(`Invalid ${label}: "id" must be a non-empty string`, 2);
+  }
+  if (rule.kind !== "hard" && rule.kind !== "soft") {
+    throw new CliError(`Invalid ${label}: "kind" must be "hard" or "soft"`, 2);
+  }
+  for (const key of ["description", "title", "content"] as const) {
+    if (rule[key] !== undefined && typeof rule[key] !== "string") {
+      throw new CliError(`Invalid ${label}: "${key}" must be a string`, 2);
+    }
+  }
+  if (rule.title === undefined && rule.content === undefined) {
+    throw new CliError(`Invalid ${label}: give a "title" or "content" pattern`, 2);
+  }
+  for (const key of ["title", "content"] as const) {
+    if (typeof rule[key] === "string" && !isValidPattern(rule[key])) {
+      throw new CliError(`Invalid ${label}: "${key}" is not a valid regular expression`, 2);
+    }
+  }
+  if (rule.maxWords !== undefined && (!Number.isInteger(rule.maxWords) || (rule.maxWords as number) <= 0)) {
+    throw new CliError(`Invalid ${label}: "maxWords" must be a positive integer`, 2);
+  }
+
+  return rule as BoilerplateRuleConfig;
+}
+
+/**
+ * Read a JSON rules file of the form `{ "rules": [{ "id", "kind", "title"?, "content"?, ... }] }`.
+ * Patterns are case-insensitive regular expressions and are checked here, so a typo
+ * fails before any parsing work starts.
+ */
+export function loadBoilerplateRules(rulesPath: string): BoilerplateRuleConfig[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(rulesPath, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown error";
+    throw new CliError(`Could not read rules file ${rulesPath}: ${message}`, 2);
+  }
+
+  const rules = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>).rules : undefined;
+  if (!Array.isArray(rules)) {
+    throw new CliError(`Invalid rules file ${rulesPath}: expected a JSON object with a "rules" array`, 2);
+  }
+  return rules.map((rule, position) => parseRule(rule, position, rulesPath));
+}
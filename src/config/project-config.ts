@@ -0,0 +1,188 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { ConvertOptions } from "../commands/convert";
+import { CliError } from "../types";
+
+export const PROJECT_CONFIG_FILES = ["injectbook.config.json", ".injectbookrc"] as const;
+
+type ConfigValueKind = "string" | "number" | "boolean" | "string[]" | "path";
+
+const CONFIG_OPTION_KINDS = {
+  install: "boolean",
+  installDir: "path",
+  includeFullBook: "boolean",
+  chapterPrefix: "string",
+  maxChapterWords: "number",
+  maxChapterTokens: "number",
+  tocDepth: "number",
+  filterBoilerplate: "boolean",
+  rules: "path",
+  includeChapters: "string[]",
+  excludeChapters: "string[]",
+  stripImages: "boolean",
+  stripInternalLinks: "boolean",
+  rewriteInternalLinks: "boolean",
+  calibreArgs: "string[]",
+  normalize: "string",
+  keepTemp: "boolean",
+  overwrite: "boolean",
+  keepBackup: "boolean",
+  searchIndex: "boolean",
+  keepExcluded: "boolean",
+  chunks: "boolean",
+  chunkSize: "number",
+  chunkOverlap: "number",
+  chunkUnit: "string",
+  summaries: "boolean",
+  keywords: "boolean",
+  template: "path",
+  chapterTemplate: "path",
+  fullBookTemplate: "path",
+  format: "string[]",
+  verbose: "boolean"
+} satisfies Partial<Record<keyof ConvertOptions, ConfigValueKind>>;
+
+export type ConfigurableOption = keyof typeof CONFIG_OPTION_KINDS;
+export type ProfileOptions = Partial<Pick<ConvertOptions, ConfigurableOption>>;
+
+export type ProjectConfig = {
+  path: string;
+  defaults: ProfileOptions;
+  profiles: Record<string, ProfileOptions>;
+};
+
+/**
+ * Walk up from startDir and return the first injectbook config file found.
+ */
+export function findProjectConfig(startDir: string = process.cwd()): string | undefined {
+  let current = path.resolve(startDir);
+  while (true) {
+    for (const fileName of PROJECT_CONFIG_FILES) {
+      const candidate = path.join(current, fileName);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+function matchesKind(value: unknown, kind: ConfigValueKind): boolean {
+  switch (kind) {
+    case "string":
+    case "path":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "string[]":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+  }
+}
+
+function parseProfileOptions(value: unknown, label: string, configPath: string): ProfileOptions {
+  if (value === undefined) {
+    return {};
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new CliError(`Invalid ${label} in ${configPath}: expected an object`, 2);
+  }
+
+  const configDir = path.dirname(configPath);
+  const options: Record<string, unknown> = {};
+  for (const [key, optionValue] of Object.entries(value)) {
+    const kind = (CONFIG_OPTION_KINDS as Record<string, ConfigValueKind>)[key];
+    if (!kind) {
+      throw new CliError(
+        `Unknown option "${key}" in ${label} of ${configPath}. Supported: ${Object.keys(CONFIG_OPTION_KINDS).join(", ")}`,
+        2
+      );
+    }
+    if (!matchesKind(optionValue, kind)) {
+      throw new CliError(`Invalid value for "${key}" in ${label} of ${configPath}: expected ${kind}`, 2);
+    }
+    // Paths are relative to the config file, not to wherever the CLI was started.
+    options[key] = kind === "path" ? path.resolve(configDir, optionValue as string) : optionValue;
+  }
+
+  return options as ProfileOptions;
+}
+
+export function loadProjectConfig(configPath: string): ProjectConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown error";
+    throw new CliError(`Could not read config file ${configPath}: ${message}`, 2);
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new CliError(`Invalid config file ${configPath}: expected a JSON object`, 2);
+  }
+
+  const { defaults, profiles, ...unknownKeys } = raw as Record<string, unknown>;
+  const unexpected = Object.keys(unknownKeys).filter((key) => key !== "$schema");
+  if (unexpected.length > 0) {
+    throw new CliError(`Unknown top-level keys in ${configPath}: ${unexpected.join(", ")}. Use "defaults" and "profiles".`, 2);
+  }
+  if (profiles !== undefined && (!profiles || typeof profiles !== "object" || Array.isArray(profiles))) {
+    throw new CliError(`Invalid "profiles" in ${configPath}: expected an object`, 2);
+  }
+
+  return {
+    path: configPath,
+    defaults: parseProfileOptions(defaults, '"defaults"', configPath),
+    profiles: Object.fromEntries(
+      Object.entries((profiles as Record<string, unknown>) || {}).map(([name, value]) => [
+        name,
+        parseProfileOptions(value, `profile "${name}"`, configPath)
+      ])
+    )
+  };
+}
+
+/**
+ * Layer config defaults and the selected profile under the CLI options.
+ * Options for which isExplicit returns true came from the command line and always win.
+ */
+export function applyProjectConfig<T extends ConvertOptions>(
+  options: T,
+  config: ProjectConfig | undefined,
+  profile: string | undefined,
+  isExplicit: (key: ConfigurableOption) => boolean
+): T {
+  if (!config) {
+    if (profile) {
+      throw new CliError(
+        `Profile "${profile}" requested but no ${PROJECT_CONFIG_FILES.join(" or ")} was found in this directory or its parents`,
+        2
+      );
+    }
+    return options;
+  }
+
+  const profileOptions = profile ? config.profiles[profile] : {};
+  if (!profileOptions) {
+    const available = Object.keys(config.profiles);
+    throw new CliError(
+      `Unknown profile "${profile}" in ${config.path}. Available: ${available.length > 0 ? available.join(", ") : "(none)"}`,
+      2
+    );
+  }
+
+  const layered: ProfileOptions = { ...config.defaults, ...profileOptions };
+  const resolved: T = { ...options };
+  for (const [key, value] of Object.entries(layered) as [ConfigurableOption, unknown][]) {
+    if (!isExplicit(key)) {
+      (resolved as Record<string, unknown>)[key] = value;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,268 @@
+import { HTMLElement, parse as parseHtml } from "node-html-parser";
+import { resolveHref } from "./internal-links";
+
+const NOTE_TYPES = new Set(["footnote", "endnote", "rearnote", "doc-footnote", "doc-endnote"]);
+const NOTEREF_TYPES = new Set(["noteref", "doc-noteref"]);
+const BACKLINK_TYPES = new Set(["backlink", "doc-backlink"]);
+// Blocks small enough to hold a single untyped note; divs and sections can wrap whole chapters.
+const NOTE_BLOCK_SELECTOR = "aside, li, p, dd";
+const CITATION_TOKEN = /@@injectbook-note-(\d+)@@/g;
+const DEFINITION_LINE = /^\[\^([^\]]+)\]: /;
+
+export type FootnoteIndex = {
+  // Note markdown keyed by "<document path>#<id>".
+  notes: Map<string, string>;
+  // Ids of the cited note elements in each document; their content moves to the citing chapter.
+  idsByDocument: Map<string, string[]>;
+};
+
+export type FootnoteCitation = {
+  key: string;
+  label: string;
+};
+
+function elementTypes(element: HTMLElement): string[] {
+  return `${element.getAttribute("epub:type") || ""} ${element.getAttribute("role") || ""}`
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function hasType(element: HTMLElement, types: Set<string>): boolean {
+  return elementTypes(element).some((type) => types.has(type));
+}
+
+function resolveLinkKey(documentPath: string, href: string): string | undefined {
+  const key = resolveHref(documentPath, href);
+  return key?.includes("#") ? key : undefined;
+}
+
+function splitKey(key: string): [string, string] {
+  const hashIndex = key.indexOf("#");
+  return [key.slice(0, hashIndex), key.slice(hashIndex + 1)];
+}
+
+/**
+ * The element holding a note's content: the nearest footnote/endnote-typed ancestor,
+ * otherwise the nearest paragraph-sized block around the link target (for plain `<a id>`
+ * anchors). Undefined when that block holds headings, since it is then a section rather
+ * than a note and moving it would swallow chapter text.
+ */
+function noteBlock(target: HTMLElement): HTMLElement | undefined {
+  for (let node: HTMLElement | null = target; node; node = node.parentNode) {
+    if (node.tagName && hasType(node, NOTE_TYPES)) {
+      return node;
+    }
+  }
+  const block = target.closest(NOTE_BLOCK_SELECTOR) || target;
+  return block.querySelector("h1, h2, h3, h4, h5, h6") ? undefined : block;
+}
+
+function stripLeadingNoteMarker(markdown: string): string {
+  return markdown.replace(/^(?:\[\d+\]|\d+[.):])\s*/, "").replace(/^[.):]\s*/, "").trim();
+}
+
+/**
+ * Find every note that is cited somewhere in the book. A link counts as a citation when it
+ * is typed as a noteref, or when it points at an element typed as a footnote or endnote.
+ */
+export function buildFootnoteIndex(documents: Map<string, string>, toMarkdown: (html: string) => string): FootnoteIndex {
+  const roots = new Map<string, HTMLElement>();
+  const typedNotes = new Set<string>();
+  for (const [documentPath, html] of documents) {
+    const root = parseHtml(html);
+    roots.set(documentPath, root);
+    for (const element of root.querySelectorAll("[id]")) {
+      if (hasType(element, NOTE_TYPES)) {
+        typedNotes.add(`${documentPath}#${element.id}`);
+      }
+    }
+  }
+
+  // Citing anchors per note, so backlinks inside the note can be recognized and dropped.
+  const citingAnchors = new Map<string, Set<string>>();
+  for (const [documentPath, root] of roots) {
+    for (const anchor of root.querySelectorAll("a[href]")) {
+      const key = resolveLinkKey(documentPath, anchor.getAttribute("href") || "");
+      if (!key || (!hasType(anchor, NOTEREF_TYPES) && !typedNotes.has(key))) {
+        continue;
+      }
+      const anchors = citingAnchors.get(key) || new Set<string>();
+      if (anchor.id) {
+        anchors.add(`${documentPath}#${anchor.id}`);
+      }
+      citingAnchors.set(key, anchors);
+    }
+  }
+
+  const index: FootnoteIndex = { notes: new Map(), idsByDocument: new Map() };
+  for (const [key, anchors] of citingAnchors) {
+    const [documentPath, id] = splitKey(key);
+    const target = roots.get(documentPath)?.getElementById(id);
+    if (!target) {
+      continue;
+    }
+
+    const block = noteBlock(target);
+    if (!block) {
+      continue;
+    }
+
+    const content = parseHtml(block.innerHTML);
+    for (const link of content.querySelectorAll("a[href]")) {
+      const linkKey = resolveLinkKey(documentPath, link.getAttribute("href") || "");
+      if (hasType(link, BACKLINK_TYPES) || (linkKey && anchors.has(linkKey))) {
+        link.remove();
+      }
+    }
+
+    const markdown = stripLeadingNoteMarker(toMarkdown(content.toString()));
+    if (!markdown) {
+      continue;
+    }
+    index.notes.set(key, markdown);
+    index.idsByDocument.set(documentPath, [...(index.idsByDocument.get(documentPath) || []), id]);
+  }
+
+  return index;
+}
+
+/**
+ * Replace citations in one spine segment with placeholder tokens (resolved later by
+ * renderFootnotes) and remove the cited notes from where they were originally printed.
+ */
+export function linkFootnotes(
+  html: string,
+  documentPath: string,
+  index: FootnoteIndex,
+  citations: FootnoteCitation[]
+): string {
+  if (index.notes.size === 0) {
+    return html;
+  }
+
+  const root = parseHtml(html);
+  for (const id of index.idsByDocument.get(documentPath) || []) {
+    const target = root.getElementById(id);
+    if (target) {
+      noteBlock(target)?.remove();
+    }
+  }
+
+  for (const anchor of root.querySelectorAll("a[href]")) {
+    const key = resolveLinkKey(documentPath, anchor.getAttribute("href") || "");
+    if (!key || !index.notes.has(key)) {
+      continue;
+    }
+    citations.push({ key, label: anchor.text.replace(/[^\p{L}\p{N}_-]/gu, "") });
+    anchor.replaceWith(`@@injectbook-note-${citations.length - 1}@@`);
+  }
+
+  return root.toString();
+}
+
+function formatDefinition(label: string, markdown: string): string {
+  const [first, ...rest] = markdown.split("\n");
+  return [`[^${label}]: ${first}`, ...rest.map((line) => (line ? `    ${line}` : ""))].join("\n");
+}
+
+/**
+ * Turn citation tokens into `[^label]` references and append one definition per cited note.
+ * Labels come from the citation text (usually the note number) and are made unique per chapter.
+ */
+export function renderFootnotes(markdown: string, citations: FootnoteCitation[], index: FootnoteIndex): string {
+  const labelsByKey = new Map<string, string>();
+  const usedLabels = new Set<string>();
+
+  const body = markdown.replace(CITATION_TOKEN, (_token, position: string) => {
+    const citation = citations[Number(position)];
+    if (!citation) {
+      return "";
+    }
+
+    let label = labelsByKey.get(citation.key);
+    if (!label) {
+      const base = citation.label || String(labelsByKey.size + 1);
+      label = base;
+      for (let suffix = 2; usedLabels.has(label); suffix += 1) {
+        label = `${base}-${suffix}`;
+      }
+      usedLabels.add(label);
+      labelsByKey.set(citation.key, label);
+    }
+    return `[^${label}]`;
+  });
+
+  if (labelsByKey.size === 0) {
+    return body;
+  }
+
+  const definitions = [...labelsByKey].map(([key, label]) => formatDefinition(label, index.notes.get(key) || ""));
+  return `${body}\n\n${definitions.join("\n\n")}`;
+}
+
+/**
+ * Separate footnote definitions from the rest of a chapter, so a chapter can be split
+ * and each part can carry only the definitions it cites.
+ */
+export function extractFootnoteDefinitions(markdown: string): { body: string; definitions: Map<string, string> } {
+  const definitions = new Map<string, string>();
+  const bodyLines: string[] = [];
+  const lines = markdown.split("\n");
+
+  for (let position = 0; position < lines.length; position += 1) {
+    const label = lines[position].match(DEFINITION_LINE)?.[1];
+    if (!label) {
+      bodyLines.push(lines[position]);
+      continue;
+    }
+
+    const definitionLines = [lines[position]];
+    while (
+      position + 1 < lines.length &&
+      (lines[position + 1].startsWith("    ") || (!lines[position + 1] && lines[position + 2]?.startsWith("    ")))
+    ) {
+      position += 1;
+      definitionLines.push(lines[position]);
+    }
+    definitions.set(label, definitionLines.join("\n"));
+  }
+
+  return { body: bodyLines.join("\n").replace(/\n{3,}/g, "\n\n").trim(), definitions };
+}
+
+export function appendFootnoteDefinitions(body: string, definitions: Map<string, string>): string {
+  const cited = [...definitions].filter(([label]) => body.includes(`[^${label}]`)).map(([, definition]) => definition);
+  return cited.length > 0 ? `${body}\n\n${cited.join("\n\n")}` : body;
+}
+
+/**
+ * Append one rendered segment to a chapter. Labels are only unique per segment, so
+ * the appended segment's labels that the chapter already uses get a numeric suffix,
+ * and all definitions move to the end of the merged chapter.
+ */
+export function mergeFootnotedMarkdown(markdown: string, appended: string): string {
+  const first = extractFootnoteDefinitions(markdown);
+  const second = extractFootnoteDefinitions(appended);
+  if (first.definitions.size === 0 && second.definitions.size === 0) {
+    return `${markdown}\n\n${appended}`;
+  }
+
+  const usedLabels = new Set(first.definitions.keys());
+  const renamed = new Map<string, string>();
+  const definitions = [...first.definitions.values()];
+  for (const [label, definition] of second.definitions) {
+    let unique = label;
+    for (let suffix = 2; usedLabels.has(unique); suffix += 1) {
+      unique = `${label}-${suffix}`;
+    }
+    usedLabels.add(unique);
+    renamed.set(label, unique);
+    definitions.push(definition.replace(`[^${label}]: `, `[^${unique}]: `));
+  }
+
+  const body = second.body.replace(/\[\^([^\]]+)\]/g, (full, label: string) =>
+    renamed.has(label) ? `[^${renamed.get(label)}]` : full
+  );
+  return `${first.body}\n\n${body}\n\n${definitions.join("\n\n")}`;
+}
@@ -0,0 +1,167 @@
+import { slugify } from "./parser";
+import type { BookMetadata, Chapter, OutputFormat } from "./types";
+import { yamlPlainOrQuoted } from "./yaml-scalar";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["skill", "llms-txt", "agents-md", "cursor"];
+
+// A chapter as every layout sees it: its file under references/ and its linked markdown.
+export type FormatChapter = {
+  chapter: Chapter;
+  file: string;
+  content: string;
+  tokenEstimate: number;
+  summary?: string;
+  keywords: string[];
+};
+
+export type FormatInput = {
+  metadata: BookMetadata;
+  chapters: FormatChapter[];
+  name: string;
+  description: string;
+};
+
+/**
+ * Renders one layout's entry files, as [path, content] pairs relative to the output
+ * directory. Chapter files under references/ are shared by all layouts and written
+ * by the skill writer.
+ */
+export type FormatWriter = (input: FormatInput) => [string, string][];
+
+function bookTitle(metadata: BookMetadata): string {
+  return metadata.title?.trim() || "Unknown";
+}
+
+function bookFacts(metadata: BookMetadata): string[] {
+  const facts = [
+    `- Title: ${bookTitle(metadata)}`,
+    `- Authors: ${metadata.authors.length > 0 ? metadata.authors.join(", ") : "Unknown"}`
+  ];
+  if (metadata.language) {
+    facts.push(`- Language: ${metadata.language}`);
+  }
+  if (metadata.publisher) {
+    facts.push(`- Publisher: ${metadata.publisher}`);
+  }
+  if (metadata.tags.length > 0) {
+    facts.push(`- Tags: ${metadata.tags.join(", ")}`);
+  }
+  return facts;
+}
+
+// The short note after a chapter link: its summary, else its keywords.
+function chapterNote({ summary, keywords }: FormatChapter): string {
+  if (summary) {
+    return `: ${summary}`;
+  }
+  return keywords.length > 0 ? `: ${keywords.join(", ")}` : "";
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Relative link and image destinations: not a URL scheme, a fragment or an absolute path.
+const RELATIVE_DESTINATION = /\]\((?![a-z][a-z0-9+.-]*:|#|\/)([^)\s]+)\)/gi;
+
+/**
+ * Chapter content links other chapters and assets/ relative to references/. Files
+ * written at the output root, such as llms-full.txt, need those links rebased.
+ */
+function linksFromRoot(markdown: string): string {
+  return markdown.replace(RELATIVE_DESTINATION, "](references/$1)");
+}
+
+/**
+ * llms.txt (https://llmstxt.org): an H1, a blockquote summary, then H2 sections of
+ * `- [name](url): notes` links. The whole book goes to llms-full.txt, listed under
+ * the spec's "Optional" section.
+ */
+const renderLlmsTxt: FormatWriter = ({ metadata, chapters, name, description }) => {
+  const links = chapters.map(
+    (entry) => `- [${entry.chapter.index}. ${entry.chapter.title}](${entry.file})${chapterNote(entry)}`
+  );
+  const index = [
+    `# ${name}`,
+    "",
+    `> ${singleLine(description)}`,
+    "",
+    ...bookFacts(metadata),
+    "",
+    "## Chapters",
+    "",
+    ...links,
+    "",
+    "## Optional",
+    "",
+    "- [Full text](llms-full.txt): Every chapter in one file"
+  ];
+  const full = [
+    `# ${name}`,
+    "",
+    `> ${singleLine(description)}`,
+    ...chapters.map(({ chapter, content }) => `\n## ${chapter.index}. ${chapter.title}\n\n${linksFromRoot(content)}`)
+  ];
+  return [
+    ["llms.txt", `${index.join("\n")}\n`],
+    ["llms-full.txt", `${full.join("\n")}\n`]
+  ];
+};
+
+/** AGENTS.md is plain markdown without frontmatter; links are relative to the output directory. */
+const renderAgentsMd: FormatWriter = ({ metadata, chapters, name, description }) => {
+  const lines = [
+    `# ${name}`,
+    "",
+    singleLine(description),
+    "",
+    "## How to use this reference",
+    "",
+    `- Answer questions about "${bookTitle(metadata)}" from the chapter files in \`references/\`.`,
+    "- Open the chapter below that matches the question and prefer the smallest file that answers it.",
+    "- Cite the chapter file you used.",
+    "",
+    "## Book",
+    "",
+    ...bookFacts(metadata),
+    "",
+    "## Chapters",
+    "",
+    ...chapters.map(
+      (entry) =>
+        `- [${entry.chapter.index}. ${entry.chapter.title}](${entry.file}) (${entry.chapter.wordCount} words)${chapterNote(entry)}`
+    )
+  ];
+  return [["AGENTS.md", `${lines.join("\n")}\n`]];
+};
+
+/**
+ * A Cursor project rule in .cursor/rules/<name>.mdc. The rule is agent-requested
+ * (a description, no globs, not always applied), and links use Cursor's `mdc:`
+ * scheme, which resolves paths from the project root, here the output directory.
+ */
+const renderCursorRule: FormatWriter = ({ metadata, chapters, name, description }) => {
+  const lines = [
+    "---",
+    `description: ${yamlPlainOrQuoted(singleLine(description))}`,
+    "globs:",
+    "alwaysApply: false",
+    "---",
+    "",
+    `# ${name}`,
+    "",
+    `Reference extracted from "${bookTitle(metadata)}". Open the chapter that matches the question:`,
+    "",
+    ...chapters.map(
+      (entry) => `- [${entry.chapter.index}. ${entry.chapter.title}](mdc:${entry.file})${chapterNote(entry)}`
+    )
+  ];
+  return [[`.cursor/rules/${slugify(name)}.mdc`, `${lines.join("\n")}\n`]];
+};
+
+// SKILL.md depends on the skill writer's templates, so the skill writer renders that layout itself.
+export const FORMAT_WRITERS: Record<Exclude<OutputFormat, "skill">, FormatWriter> = {
+  "llms-txt": renderLlmsTxt,
+  "agents-md": renderAgentsMd,
+  cursor: renderCursorRule
+};
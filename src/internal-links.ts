@@ -0,0 +1,162 @@
+import path from "node:path";
+import { HTMLElement, parse as parseHtml } from "node-html-parser";
+import type { Chapter } from "./types";
+
+const LINK_HREF_PATTERN = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi;
+const MARKED_LINK = /\[((?:\\.|[^\]])*)\]\(injectbook-link:([^)\s]+)\)/g;
+const LEFTOVER_MARKED_DESTINATION = /\(injectbook-link:[^)\s]+\)/g;
+const CHAPTER_LINK = /\]\(injectbook-chapter:(\d+)(#[^)\s]*)?\)/g;
+const HEADING_TAGS = new Set(["H1", "H2", "H3", "H4", "H5", "H6"]);
+
+export type LinkTarget = {
+  chapter: Chapter;
+  heading?: string;
+};
+
+// Where a link target ended up: the output chapter index and a heading anchor in it.
+export type ChapterLocation = {
+  index: number;
+  anchor?: string;
+};
+
+function decodeHrefPart(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Resolve an internal href against the document it appears in. Returns "<path>" or
+ * "<path>#<fragment>", or undefined for external (scheme) links.
+ */
+export function resolveHref(documentPath: string, href: string): string | undefined {
+  if (!href || /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith("//")) {
+    return undefined;
+  }
+
+  const hashIndex = href.indexOf("#");
+  const filePart = hashIndex === -1 ? href : href.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? "" : decodeHrefPart(href.slice(hashIndex + 1));
+  const targetPath = filePart
+    ? path.posix.normalize(path.posix.join(path.posix.dirname(documentPath), decodeHrefPart(filePart)))
+    : documentPath;
+  return fragment ? `${targetPath}#${fragment}` : targetPath;
+}
+
+/** GitHub-style heading anchor, as generated by most markdown renderers. */
+export function headingAnchor(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+/**
+ * Point internal links at an `injectbook-link:` placeholder holding the resolved target,
+ * so they survive markdown conversion until the chapter files are known.
+ */
+export function markInternalLinks(html: string, documentPath: string): string {
+  return html.replace(LINK_HREF_PATTERN, (full, prefix: string, quote: string, href: string) => {
+    const key = resolveHref(documentPath, href);
+    return key ? `${prefix}${quote}injectbook-link:${encodeURIComponent(key)}${quote}` : full;
+  });
+}
+
+/**
+ * List every id in a spine segment together with the heading it falls under: the element
+ * itself when it is a heading, otherwise the first heading inside it or the last one before it.
+ */
+export function collectLinkTargets(html: string, documentPath: string): { key: string; heading?: string }[] {
+  const targets: { key: string; heading?: string }[] = [];
+  let currentHeading: string | undefined;
+
+  const visit = (element: HTMLElement): void => {
+    const isHeading = HEADING_TAGS.has(element.tagName);
+    if (isHeading) {
+      currentHeading = element.text.trim() || currentHeading;
+    }
+    if (element.id) {
+      const heading = isHeading ? currentHeading : element.querySelector("h1, h2, h3, h4, h5, h6")?.text.trim();
+      targets.push({ key: `${documentPath}#${element.id}`, heading: heading || currentHeading });
+    }
+    for (const child of element.childNodes) {
+      if (child instanceof HTMLElement) {
+        visit(child);
+      }
+    }
+  };
+
+  visit(parseHtml(html));
+  return targets;
+}
+
+function markdownHeadingAnchors(markdown: string): Set<string> {
+  return new Set(
+    markdown
+      .split("\n")
+      .filter((line) => /^#{1,6}\s/.test(line))
+      .map((line) => headingAnchor(line.replace(/^#{1,6}\s+/, "")))
+  );
+}
+
+/**
+ * Find link targets in the final chapters. `origins[i]` is the extracted chapter that
+ * `chapters[i]` came from, so targets inside a chapter that was split are found in the
+ * part holding their heading. Targets in chapters that are not in the output are undefined.
+ */
+export function createLinkLocator(
+  chapters: Chapter[],
+  origins: Chapter[]
+): (target: LinkTarget) => ChapterLocation | undefined {
+  const anchorsByPosition = chapters.map((chapter) => markdownHeadingAnchors(chapter.markdown));
+
+  return (target) => {
+    const positions = origins.flatMap((origin, position) => (origin === target.chapter ? [position] : []));
+    if (positions.length === 0) {
+      return undefined;
+    }
+    if (!target.heading) {
+      return { index: chapters[positions[0]].index };
+    }
+
+    const anchor = headingAnchor(target.heading);
+    const position = positions.find((candidate) => anchorsByPosition[candidate].has(anchor)) ?? positions[0];
+    return { index: chapters[position].index, anchor };
+  };
+}
+
+/**
+ * Replace link placeholders with `injectbook-chapter:<index>#<anchor>` once the final
+ * chapters are known (see createLinkLocator). Links to content that is not in the output are reduced to their text.
+ */
+export function resolveInternalLinks(
+  chapters: Chapter[],
+  origins: Chapter[],
+  targets: Map<string, LinkTarget>
+): Chapter[] {
+  const locate = createLinkLocator(chapters, origins);
+  return chapters.map((chapter) => ({
+    ...chapter,
+    markdown: chapter.markdown
+      .replace(MARKED_LINK, (_full, label: string, encodedKey: string) => {
+        const target = targets.get(decodeHrefPart(encodedKey));
+        const location = target && locate(target);
+        if (!location) {
+          return label;
+        }
+        return `[${label}](injectbook-chapter:${location.index}${location.anchor ? `#${location.anchor}` : ""})`;
+      })
+      .replace(LEFTOVER_MARKED_DESTINATION, "")
+  }));
+}
+
+/** Turn `injectbook-chapter:<index>` destinations into relative chapter file links. */
+export function linkChapterFiles(markdown: string, fileNameForIndex: (index: number) => string | undefined): string {
+  return markdown.replace(CHAPTER_LINK, (full, index: string, anchor: string | undefined) => {
+    const fileName = fileNameForIndex(Number(index));
+    return fileName ? `](${fileName}${anchor || ""})` : full;
+  });
+}
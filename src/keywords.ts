@@ -0,0 +1,87 @@
+import { tokenize } from "./search-index";
+import type { Chapter } from "./types";
+
+const CHAPTER_KEYWORDS = 6;
+const BOOK_TERMS = 5;
+
+// Common words that carry no topic, on top of the search stopwords dropped by tokenize().
+const KEYWORD_STOPWORDS = new Set(
+  (
+    "about above after again against all also although always am among another any anyone anything " +
+    "around away back because been before being below between both can cannot could did does doing done " +
+    "down during each either else enough even ever every few first for get gets getting give given goes " +
+    "going gone got had has have having he her here hers herself him himself his how however i just know " +
+    "last later less let like likely made make makes making many may maybe me might more most much must " +
+    "my myself near need never new next no nor not now off often once one only other others our ours " +
+    "ourselves out over own part per perhaps put quite rather really said same say says see seen several " +
+    "shall she should show since some something sometimes still such take than thing things think those " +
+    "though three through thus too two under until up upon us use used uses using very want way ways we " +
+    "well went what whatever when where whether while who whole whom whose why within without would yet " +
+    "you your yours yourself chapter section figure table page pages example examples"
+  ).split(" ")
+);
+
+function isKeywordCandidate(token: string): boolean {
+  return token.length >= 3 && /\p{L}/u.test(token) && !KEYWORD_STOPWORDS.has(token);
+}
+
+function chapterTerms(markdown: string): string[] {
+  const text = markdown
+    .replace(/!\[[^\]]*]\([^)]*\)/g, "")
+    .replace(/\]\([^)]*\)/g, "]")
+    .replace(/\[\^[^\]]+\]/g, "")
+    .replace(/<[^>]+>/g, "");
+  return tokenize(text).filter(isKeywordCandidate);
+}
+
+function byScore([firstTerm, firstScore]: [string, number], [secondTerm, secondScore]: [string, number]): number {
+  return secondScore - firstScore || (firstTerm < secondTerm ? -1 : firstTerm > secondTerm ? 1 : 0);
+}
+
+/**
+ * TF-IDF keywords for each chapter against the rest of the book, plus the book's top
+ * terms (highest term frequency summed over all chapters). Terms must occur at least
+ * twice in a chapter to count as one of its keywords. Ties are broken alphabetically.
+ */
+export function extractKeywords(chapters: Chapter[]): { chapters: string[][]; book: string[] } {
+  const counts = chapters.map((chapter) => {
+    const termCounts = new Map<string, number>();
+    for (const term of chapterTerms(chapter.markdown)) {
+      termCounts.set(term, (termCounts.get(term) || 0) + 1);
+    }
+    return termCounts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const termCounts of counts) {
+    for (const term of termCounts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const bookScores = new Map<string, number>();
+  const chapterKeywords = counts.map((termCounts) => {
+    const total = [...termCounts.values()].reduce((sum, count) => sum + count, 0);
+    const scores: [string, number][] = [];
+    for (const [term, count] of termCounts) {
+      const frequency = count / total;
+      bookScores.set(term, (bookScores.get(term) || 0) + frequency);
+      if (count >= 2) {
+        const idf = Math.log((1 + chapters.length) / (1 + (documentFrequency.get(term) || 0))) + 1;
+        scores.push([term, frequency * idf]);
+      }
+    }
+    return scores
+      .sort(byScore)
+      .slice(0, CHAPTER_KEYWORDS)
+      .map(([term]) => term);
+  });
+
+  return {
+    chapters: chapterKeywords,
+    book: [...bookScores]
+      .sort(byScore)
+      .slice(0, BOOK_TERMS)
+      .map(([term]) => term)
+  };
+}
@@ -0,0 +1,64 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import pkg from "../package.json";
+import { CliError } from "./types";
+
+export const MANIFEST_PATH = "references/.injectbook-manifest.json";
+
+export type SkillManifest = {
+  manifestVersion: 1;
+  injectbookVersion: string;
+  source: { file: string; sha256: string } | null;
+  options: Record<string, unknown>;
+  files: Record<string, string>;
+};
+
+export function hashContent(content: string | Buffer): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+export function hashFile(filePath: string): string {
+  return hashContent(fs.readFileSync(filePath));
+}
+
+/**
+ * Build the manifest for a set of rendered skill files. No timestamps are recorded,
+ * so regenerating an unchanged book produces a byte-identical manifest.
+ */
+export function buildManifest(
+  files: Map<string, string | Buffer>,
+  source: SkillManifest["source"],
+  options: Record<string, unknown>
+): SkillManifest {
+  return {
+    manifestVersion: 1,
+    injectbookVersion: pkg.version,
+    source,
+    options,
+    files: Object.fromEntries([...files].map(([relativePath, content]) => [relativePath, hashContent(content)]))
+  };
+}
+
+export function readManifest(skillDir: string): SkillManifest {
+  const manifestPath = path.join(skillDir, MANIFEST_PATH);
+  if (!fs.existsSync(manifestPath)) {
+    throw new CliError(
+      `No injectbook manifest found at ${manifestPath}. Run a full conversion (with --overwrite) before using --update.`,
+      2
+    );
+  }
+
+  let manifest: Partial<SkillManifest>;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown error";
+    throw new CliError(`Could not read manifest ${manifestPath}: ${message}`, 2);
+  }
+
+  if (manifest.manifestVersion !== 1 || !manifest.files || !manifest.options) {
+    throw new CliError(`Unsupported or invalid manifest: ${manifestPath}`, 2);
+  }
+  return manifest as SkillManifest;
+}
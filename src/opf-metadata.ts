@@ -0,0 +1,202 @@
+import { parse as parseHtml } from "node-html-parser";
+import type { BookContributor, BookIdentifier, BookMetadata } from "./types";
+
+// Fields read from the OPF <metadata> beyond title, authors, language, publisher and tags.
+export type OpfDetails = Pick<
+  BookMetadata,
+  "identifiers" | "isbn" | "date" | "description" | "creators" | "contributors" | "series" | "seriesIndex"
+>;
+
+type XmlNode = string | number | Record<string, unknown>;
+
+// An EPUB 3 <meta refines="#id" property="..."> value.
+type Refinement = {
+  property: string;
+  value: string;
+  scheme?: string;
+};
+
+// ONIX code list 5 values EPUB 3 uses for identifier-type.
+const ONIX_IDENTIFIER_TYPES: Record<string, string> = {
+  "02": "ISBN",
+  "03": "GTIN-13",
+  "06": "DOI",
+  "15": "ISBN"
+};
+
+const URN_SCHEMES: Record<string, string> = {
+  isbn: "ISBN",
+  uuid: "UUID",
+  doi: "DOI",
+  issn: "ISSN"
+};
+
+function asNodes(value: unknown): XmlNode[] {
+  if (value === undefined || value === null || value === "") {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]) as XmlNode[];
+}
+
+function textOf(node: XmlNode): string {
+  if (typeof node === "object") {
+    const text = node["#text"];
+    return typeof text === "string" || typeof text === "number" ? String(text).trim() : "";
+  }
+  return String(node).trim();
+}
+
+function attribute(node: XmlNode, ...names: string[]): string | undefined {
+  if (typeof node !== "object") {
+    return undefined;
+  }
+  for (const name of names) {
+    const value = node[name];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function collectRefinements(metadata: Record<string, unknown>): Map<string, Refinement[]> {
+  const refinements = new Map<string, Refinement[]>();
+  for (const meta of asNodes(metadata.meta)) {
+    const target = attribute(meta, "refines");
+    const property = attribute(meta, "property");
+    const value = textOf(meta);
+    if (!target || !property || !value) {
+      continue;
+    }
+    const id = target.replace(/^#/, "");
+    const list = refinements.get(id) ?? [];
+    list.push({ property, value, scheme: attribute(meta, "scheme") });
+    refinements.set(id, list);
+  }
+  return refinements;
+}
+
+function refinement(refinements: Map<string, Refinement[]>, node: XmlNode, property: string): Refinement | undefined {
+  const id = attribute(node, "id");
+  return id ? refinements.get(id)?.find((entry) => entry.property === property) : undefined;
+}
+
+/** EPUB 2 carries role and file-as as opf: attributes, EPUB 3 as refining <meta> elements. */
+function readPeople(nodes: XmlNode[], refinements: Map<string, Refinement[]>): BookContributor[] {
+  return nodes.flatMap((node) => {
+    const name = textOf(node);
+    if (!name) {
+      return [];
+    }
+    const person: BookContributor = { name };
+    const role = attribute(node, "opf:role", "role") ?? refinement(refinements, node, "role")?.value;
+    const fileAs = attribute(node, "opf:file-as", "file-as") ?? refinement(refinements, node, "file-as")?.value;
+    if (role) {
+      person.role = role;
+    }
+    if (fileAs) {
+      person.fileAs = fileAs;
+    }
+    return [person];
+  });
+}
+
+function readIdentifiers(nodes: XmlNode[], refinements: Map<string, Refinement[]>): BookIdentifier[] {
+  return nodes.flatMap((node) => {
+    let value = textOf(node);
+    if (!value) {
+      return [];
+    }
+    let scheme = attribute(node, "opf:scheme", "scheme");
+    const urn = /^urn:([a-z]+):(.+)$/i.exec(value);
+    if (urn && URN_SCHEMES[urn[1].toLowerCase()]) {
+      scheme = scheme ?? URN_SCHEMES[urn[1].toLowerCase()];
+      value = urn[2];
+    }
+    const type = refinement(refinements, node, "identifier-type");
+    if (!scheme && type) {
+      scheme = ONIX_IDENTIFIER_TYPES[type.value] ?? type.value;
+    }
+    return [scheme ? { value, scheme } : { value }];
+  });
+}
+
+function readIsbn(identifiers: BookIdentifier[]): string | undefined {
+  for (const identifier of identifiers) {
+    const digits = identifier.value.replace(/^isbn:?\s*/i, "").replace(/[\s-]/g, "");
+    const isIsbnShaped = /^(?:\d{9}[\dX]|\d{13})$/i.test(digits);
+    if (isIsbnShaped && (identifier.scheme?.toUpperCase() === "ISBN" || !identifier.scheme)) {
+      return digits.toUpperCase();
+    }
+  }
+  return undefined;
+}
+
+/** Prefer the publication date; EPUB 2 files may also list creation or modification dates. */
+function readDate(nodes: XmlNode[]): string | undefined {
+  const dated = nodes
+    .map((node) => ({ value: textOf(node), event: attribute(node, "opf:event", "event")?.toLowerCase() }))
+    .filter((entry) => entry.value);
+  const publication = dated.find((entry) => !entry.event || entry.event === "publication");
+  return (publication ?? dated[0])?.value;
+}
+
+/** Blurbs are often escaped HTML; keep their text on a single line. */
+function readDescription(nodes: XmlNode[]): string | undefined {
+  const raw = nodes.map(textOf).find(Boolean);
+  if (!raw) {
+    return undefined;
+  }
+  const text = parseHtml(raw).structuredText.replace(/\s+/g, " ").trim();
+  return text || undefined;
+}
+
+/**
+ * calibre writes <meta name="calibre:series" content="..."/>; EPUB 3 uses a
+ * belongs-to-collection <meta> refined by group-position.
+ */
+function readSeries(
+  metadata: Record<string, unknown>,
+  refinements: Map<string, Refinement[]>
+): Pick<BookMetadata, "series" | "seriesIndex"> {
+  const metas = asNodes(metadata.meta);
+  const named = (name: string): string | undefined =>
+    metas.map((meta) => (attribute(meta, "name") === name ? attribute(meta, "content") : undefined)).find(Boolean);
+
+  let series = named("calibre:series");
+  let position = named("calibre:series_index");
+  if (!series) {
+    const collection = metas.find((meta) => attribute(meta, "property") === "belongs-to-collection" && textOf(meta));
+    if (collection) {
+      series = textOf(collection);
+      position = refinement(refinements, collection, "group-position")?.value;
+    }
+  }
+
+  const seriesIndex = position === undefined ? Number.NaN : Number.parseFloat(position);
+  return { series, seriesIndex: series && Number.isFinite(seriesIndex) ? seriesIndex : undefined };
+}
+
+/** Read identifiers, dates, blurb, people and series from a parsed OPF <metadata> element. */
+export function readOpfDetails(metadata: unknown): OpfDetails {
+  if (!metadata || typeof metadata !== "object") {
+    return {};
+  }
+  const fields = metadata as Record<string, unknown>;
+  const refinements = collectRefinements(fields);
+  const identifiers = readIdentifiers(asNodes(fields["dc:identifier"]), refinements);
+  const creators = readPeople(asNodes(fields["dc:creator"]), refinements);
+  const contributors = readPeople(asNodes(fields["dc:contributor"]), refinements);
+  const details: OpfDetails = {
+    identifiers: identifiers.length > 0 ? identifiers : undefined,
+    isbn: readIsbn(identifiers),
+    date: readDate(asNodes(fields["dc:date"])),
+    description: readDescription(asNodes(fields["dc:description"])),
+    creators: creators.length > 0 ? creators : undefined,
+    contributors: contributors.length > 0 ? contributors : undefined,
+    ...readSeries(fields, refinements)
+  };
+
+  // Leave absent fields out entirely so metadata JSON stays compact.
+  return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)) as OpfDetails;
+}
@@ -1,9 +1,38 @@
 import path from "node:path";
 import AdmZip from "adm-zip";
 import { XMLParser } from "fast-xml-parser";
-import { parse as parseHtml } from "node-html-parser";
+import { HTMLElement, parse as parseHtml } from "node-html-parser";
 import { NodeHtmlMarkdown } from "node-html-markdown";
-import { CliError, type BookMetadata, type Chapter } from "./types";
+import {
+  appendFootnoteDefinitions,
+  buildFootnoteIndex,
+  extractFootnoteDefinitions,
+  linkFootnotes,
+  mergeFootnotedMarkdown,
+  renderFootnotes,
+  type FootnoteCitation
+} from "./footnotes";
+import {
+  collectLinkTargets,
+  createLinkLocator,
+  markInternalLinks,
+  resolveInternalLinks,
+  type ChapterLocation,
+  type LinkTarget
+} from "./internal-links";
+import { hashContent } from "./manifest";
+import { readOpfDetails } from "./opf-metadata";
+import { extractIndexEntries, isIndexSection, resolveTermIndex, type IndexEntry } from "./term-index";
+import { estimateTokens } from "./tokens";
+import {
+  CliError,
+  type BookMetadata,
+  type Chapter,
+  type BoilerplateRuleConfig,
+  type ExcludedChapter,
+  type SkillAsset,
+  type TermIndexEntry
+} from "./types";
 
 type ManifestItem = {
   id: string;
@@ -16,23 +45,33 @@ type SpineItem = {
   idref: string;
 };
 
-type TocLabelMap = Map<string, string>;
 type TocEntry = {
   href: string;
   title: string;
+  depth: number;
+  parent?: TocEntry;
+  children: TocEntry[];
 };
 
 export type ParseOptions = {
   stripImages: boolean;
   stripInternalLinks: boolean;
+  rewriteInternalLinks: boolean;
   filterBoilerplate: boolean;
   maxChapterWords: number;
+  maxChapterTokens?: number;
   minSectionWords: number;
+  tocDepth?: number;
+  rules?: BoilerplateRuleConfig[];
+  includeChapters?: string[];
+  excludeChapters?: string[];
+  keepExcluded?: boolean;
 };
 
 const DEFAULT_PARSE_OPTIONS: ParseOptions = {
   stripImages: true,
   stripInternalLinks: true,
+  rewriteInternalLinks: false,
   filterBoilerplate: true,
   maxChapterWords: 15000,
   minSectionWords: 300
@@ -43,6 +82,13 @@ const xmlParser = new XMLParser({
   attributeNamePrefix: ""
 });
 
+// Metadata values stay strings: ISBNs keep leading zeros and a title like "1984" stays text.
+const opfParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  parseTagValue: false
+});
+
 function asArray<T>(value: T | T[] | undefined): T[] {
   if (!value) {
     return [];
@@ -108,21 +154,40 @@ function chapterWordCount(markdown: string): number {
   return words.length;
 }
 
-function splitOversizedPlainBlock(block: string, maxChapterWords: number): string[] {
+type ChapterSizeLimits = Pick<ParseOptions, "maxChapterWords" | "maxChapterTokens">;
+
+/** True when a word and estimated token count exceed the chapter limits scaled by `factor`. */
+function exceedsChapterLimits(words: number, tokens: number, limits: ChapterSizeLimits, factor = 1): boolean {
+  return (
+    words > limits.maxChapterWords * factor ||
+    (limits.maxChapterTokens !== undefined && tokens > limits.maxChapterTokens * factor)
+  );
+}
+
+function splitOversizedPlainBlock(block: string, limits: ChapterSizeLimits): string[] {
   const words = block.split(/\s+/).filter(Boolean);
   const chunks: string[] = [];
-
-  for (let index = 0; index < words.length; index += maxChapterWords) {
-    const chunk = words.slice(index, index + maxChapterWords).join(" ").trim();
-    if (chunk) {
-      chunks.push(chunk);
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const word of words) {
+    const wordTokens = estimateTokens(word);
+    if (current.length > 0 && exceedsChapterLimits(current.length + 1, currentTokens + wordTokens, limits)) {
+      chunks.push(current.join(" "));
+      current = [];
+      currentTokens = 0;
     }
+    current.push(word);
+    currentTokens += wordTokens;
+  }
+  if (current.length > 0) {
+    chunks.push(current.join(" "));
   }
 
   return chunks;
 }
 
-function splitMarkdownByWordCount(markdown: string, maxChapterWords: number): string[] {
+function splitMarkdownByWordCount(markdown: string, limits: ChapterSizeLimits): string[] {
   const paragraphBlocks = markdown
     .split(/\n{2,}/)
     .map((block) => block.trim())
@@ -135,6 +200,7 @@ function splitMarkdownByWordCount(markdown: string, maxChapterWords: number): st
   const chunks: string[] = [];
   let currentBlocks: string[] = [];
   let currentWords = 0;
+  let currentTokens = 0;
 
   const flushCurrent = (): void => {
     if (currentBlocks.length === 0) {
@@ -143,22 +209,25 @@ function splitMarkdownByWordCount(markdown: string, maxChapterWords: number): st
     chunks.push(currentBlocks.join("\n\n").trim());
     currentBlocks = [];
     currentWords = 0;
+    currentTokens = 0;
   };
 
   for (const block of paragraphBlocks) {
     const blockWords = chapterWordCount(block);
-    if (blockWords > Math.floor(maxChapterWords * 1.5)) {
+    const blockTokens = estimateTokens(block);
+    if (exceedsChapterLimits(blockWords, blockTokens, limits, 1.5)) {
       flushCurrent();
-      chunks.push(...splitOversizedPlainBlock(block, maxChapterWords));
+      chunks.push(...splitOversizedPlainBlock(block, limits));
       continue;
     }
 
-    if (currentWords > 0 && currentWords + blockWords > maxChapterWords) {
+    if (currentWords > 0 && exceedsChapterLimits(currentWords + blockWords, currentTokens + blockTokens, limits)) {
       flushCurrent();
     }
 
     currentBlocks.push(block);
     currentWords += blockWords;
+    currentTokens += blockTokens;
   }
 
   flushCurrent();
@@ -308,6 +377,7 @@ function normalizeMetadataList(value: unknown): string[] {
 type BoilerplateRule = {
   id: string;
   kind: "hard" | "soft";
+  description: string;
   titlePattern?: RegExp;
   contentPattern?: RegExp;
   predicate?: (chapter: Chapter) => boolean;
@@ -318,41 +388,49 @@ const BOILERPLATE_RULES: BoilerplateRule[] = [
   {
     id: "title-front-matter",
     kind: "hard",
+    description: "front matter title (cover, contents, about the author, ...)",
     titlePattern:
       /^\s*(cover|title page|contents|table of contents|about the author|by the same author|copyright page)\s*$/i
   },
   {
     id: "title-back-matter",
     kind: "hard",
+    description: "back matter title (notes, bibliography, references, ...)",
     titlePattern: /^\s*(notes|endnotes|index|bibliography|references)\s*$/i
   },
   {
     id: "legal-license",
     kind: "soft",
+    description: "license or copyright text in a short section",
     contentPattern: /project gutenberg|gutenberg license|full license|terms of use|copyright|all rights reserved/i,
     maxWords: 4000
   },
   {
     id: "notes-content-density",
     kind: "hard",
+    description: "content is mostly numbered notes",
     predicate: (chapter) => isLikelyNoteDenseMarkdown(chapter.markdown)
   }
 ];
 
-function isBoilerplateChapter(chapter: Chapter, options: ParseOptions): boolean {
-  if (!options.filterBoilerplate) {
-    return false;
-  }
+type BoilerplateMatch = { rule: Pick<BoilerplateRule, "id">; reason: string };
 
-  const normalizedTitle = cleanTitle(chapter.title);
-  const normalizedTitleLower = normalizedTitle.toLowerCase();
-  if (/\b(index|glossary)\b/.test(normalizedTitleLower)) {
-    return false;
-  }
+function compileUserRules(rules: BoilerplateRuleConfig[] = []): BoilerplateRule[] {
+  return rules.map((rule) => ({
+    id: rule.id,
+    kind: rule.kind,
+    description: rule.description || `user rule ${rule.id}`,
+    titlePattern: rule.title === undefined ? undefined : new RegExp(rule.title, "i"),
+    contentPattern: rule.content === undefined ? undefined : new RegExp(rule.content, "i"),
+    maxWords: rule.maxWords
+  }));
+}
 
-  const sample = `${normalizedTitleLower}\n${chapter.markdown.slice(0, 2500).toLowerCase()}`;
+function firstMatchingRule(rules: BoilerplateRule[], chapter: Chapter): BoilerplateMatch | undefined {
+  const normalizedTitle = cleanTitle(chapter.title);
+  const sample = `${normalizedTitle.toLowerCase()}\n${chapter.markdown.slice(0, 2500).toLowerCase()}`;
 
-  for (const rule of BOILERPLATE_RULES) {
+  for (const rule of rules) {
     const titleMatch = rule.titlePattern ? rule.titlePattern.test(normalizedTitle) : false;
     const contentMatch = rule.contentPattern ? rule.contentPattern.test(sample) : false;
     const predicateMatch = rule.predicate ? rule.predicate(chapter) : false;
@@ -360,17 +438,65 @@ function isBoilerplateChapter(chapter: Chapter, options: ParseOptions): boolean
       continue;
     }
 
+    const matchedBy = titleMatch ? "title" : contentMatch ? "content" : "content analysis";
     if (rule.kind === "hard") {
-      return true;
+      return { rule, reason: `${rule.description}; matched by ${matchedBy}` };
     }
 
     const withinWordLimit = typeof rule.maxWords !== "number" || chapter.wordCount <= rule.maxWords;
     if (withinWordLimit) {
-      return true;
+      const limitText = typeof rule.maxWords === "number" ? ` within ${rule.maxWords} words` : "";
+      return { rule, reason: `${rule.description}; matched by ${matchedBy}${limitText}` };
     }
   }
 
-  return false;
+  return undefined;
+}
+
+/**
+ * Rules from a --rules file apply even with --no-filter-boilerplate, since the user
+ * asked for them explicitly. The built-in rules never drop an index or glossary.
+ */
+function matchBoilerplateRule(
+  chapter: Chapter,
+  options: ParseOptions,
+  userRules: BoilerplateRule[]
+): BoilerplateMatch | undefined {
+  const userMatch = firstMatchingRule(userRules, chapter);
+  if (userMatch || !options.filterBoilerplate) {
+    return userMatch;
+  }
+  if (/\b(index|glossary)\b/.test(cleanTitle(chapter.title).toLowerCase())) {
+    return undefined;
+  }
+  return firstMatchingRule(BOILERPLATE_RULES, chapter);
+}
+
+type ChapterFilter = {
+  pattern: string;
+  matches: (chapter: Chapter, position: number) => boolean;
+};
+
+/**
+ * An --include-chapter/--exclude-chapter pattern: a chapter number or range ("3",
+ * "3-5", "10-", "-2"), counted in reading order before filtering and splitting, or
+ * else a case-insensitive regular expression matched against the chapter title.
+ */
+export function compileChapterFilter(pattern: string, flag: string): ChapterFilter {
+  const range = /^\s*(\d*)\s*(-)?\s*(\d*)\s*$/.exec(pattern);
+  if (range && (range[1] || range[3]) && (range[2] || !range[3])) {
+    const from = range[1] ? Number.parseInt(range[1], 10) : 1;
+    const to = range[2] ? (range[3] ? Number.parseInt(range[3], 10) : Number.POSITIVE_INFINITY) : from;
+    return { pattern, matches: (_chapter, position) => position >= from && position <= to };
+  }
+
+  let titlePattern: RegExp;
+  try {
+    titlePattern = new RegExp(pattern, "i");
+  } catch {
+    throw new CliError(`Invalid ${flag} pattern: ${pattern}. Use a chapter number, a range such as 3-5, or a regular expression`, 2);
+  }
+  return { pattern, matches: (chapter) => titlePattern.test(cleanTitle(chapter.title)) };
 }
 
 function parseNavEntries(zip: AdmZip, opfDir: string, manifest: ManifestItem[]): TocEntry[] {
@@ -403,22 +529,36 @@ function parseNavEntries(zip: AdmZip, opfDir: string, manifest: ManifestItem[]):
     return [];
   }
 
+  return parseNavList(firstOl, 1);
+}
+
+function childElements(node: HTMLElement, tagNames: string[]): HTMLElement[] {
+  return node.childNodes.filter(
+    (child): child is HTMLElement => child instanceof HTMLElement && tagNames.includes(child.tagName.toLowerCase())
+  );
+}
+
+function parseNavList(list: HTMLElement, depth: number, parent?: TocEntry): TocEntry[] {
   const entries: TocEntry[] = [];
-  for (const child of firstOl.childNodes) {
-    const tagName = String((child as { tagName?: string }).tagName || "").toLowerCase();
-    if (tagName !== "li") {
+  for (const item of childElements(list, ["li"])) {
+    const labelNode = childElements(item, ["a", "span"])[0];
+    const href = labelNode?.tagName.toLowerCase() === "a" ? labelNode.getAttribute("href") || "" : "";
+    const label = cleanTitle((labelNode?.text || "").replace(/\s+/g, " ").trim());
+    const nestedList = childElements(item, ["ol"])[0];
+
+    if (!label) {
+      // Unlabelled wrappers still carry nested entries; lift them to this level.
+      if (nestedList) {
+        entries.push(...parseNavList(nestedList, depth, parent));
+      }
       continue;
     }
-    const anchor = (
-      child as unknown as {
-        querySelector: (selector: string) => { getAttribute: (name: string) => string | undefined; text: string } | null;
-      }
-    ).querySelector("a");
-    const href = anchor?.getAttribute("href") || "";
-    const label = cleanTitle((anchor?.text || "").replace(/\s+/g, " ").trim());
-    if (href && label) {
-      entries.push({ href, title: label });
+
+    const entry: TocEntry = { href, title: label, depth, parent, children: [] };
+    if (nestedList) {
+      entry.children = parseNavList(nestedList, depth + 1, entry);
     }
+    entries.push(entry);
   }
 
   return entries;
@@ -454,13 +594,20 @@ function splitMarkdownByHeading(markdown: string, level: 1 | 2): { title?: strin
 function mergeTinySections(
   sections: { title?: string; markdown: string }[],
   minSectionWords: number,
-  maxChapterWords: number
+  limits: ChapterSizeLimits
 ): { title?: string; markdown: string }[] {
+  const fitsMerged = (first: string, second: string): boolean =>
+    !exceedsChapterLimits(
+      chapterWordCount(first) + chapterWordCount(second),
+      estimateTokens(first) + estimateTokens(second),
+      limits,
+      1.25
+    );
+
   const merged = [...sections];
   for (let index = 1; index < merged.length; index += 1) {
-    const previousWordCount = chapterWordCount(merged[index - 1].markdown);
     const currentWordCount = chapterWordCount(merged[index].markdown);
-    if (currentWordCount < minSectionWords && previousWordCount + currentWordCount <= maxChapterWords * 1.25) {
+    if (currentWordCount < minSectionWords && fitsMerged(merged[index - 1].markdown, merged[index].markdown)) {
       merged[index - 1].markdown = `${merged[index - 1].markdown}\n\n${merged[index].markdown}`;
       merged.splice(index, 1);
       index -= 1;
@@ -470,7 +617,7 @@ function mergeTinySections(
   if (
     merged.length > 1 &&
     chapterWordCount(merged[0].markdown) < minSectionWords &&
-    chapterWordCount(merged[0].markdown) + chapterWordCount(merged[1].markdown) <= maxChapterWords * 1.25
+    fitsMerged(merged[0].markdown, merged[1].markdown)
   ) {
     merged[1].markdown = `${merged[0].markdown}\n\n${merged[1].markdown}`;
     merged.shift();
@@ -480,7 +627,7 @@ function mergeTinySections(
 }
 
 function splitLargeChapter(chapter: Chapter, options: ParseOptions): Chapter[] {
-  if (chapter.wordCount <= options.maxChapterWords) {
+  if (!exceedsChapterLimits(chapter.wordCount, estimateTokens(chapter.markdown), options)) {
     return [chapter];
   }
 
@@ -488,7 +635,7 @@ function splitLargeChapter(chapter: Chapter, options: ParseOptions): Chapter[] {
   const fallbackSections = sections.length > 0 ? sections : splitMarkdownByHeading(chapter.markdown, 2);
   const merged =
     fallbackSections.length >= 2
-      ? mergeTinySections(fallbackSections, options.minSectionWords, options.maxChapterWords)
+      ? mergeTinySections(fallbackSections, options.minSectionWords, options)
       : [];
   if (merged.length >= 2) {
     return merged.map((section, index) => {
@@ -500,12 +647,16 @@ function splitLargeChapter(chapter: Chapter, options: ParseOptions): Chapter[] {
         slug: slugify(sectionTitle),
         sourceFile: `${chapter.sourceFile}#part-${index + 1}`,
         markdown: sectionMarkdown,
-        wordCount: chapterWordCount(sectionMarkdown)
+        wordCount: chapterWordCount(sectionMarkdown),
+        depth: chapter.depth,
+        parent: chapter.parent,
+        tocId: chapter.tocId,
+        parentTocId: chapter.parentTocId
       };
     });
   }
 
-  const fallbackWordChunks = splitMarkdownByWordCount(chapter.markdown, options.maxChapterWords);
+  const fallbackWordChunks = splitMarkdownByWordCount(chapter.markdown, options);
   if (fallbackWordChunks.length < 2) {
     return [chapter];
   }
@@ -518,11 +669,68 @@ function splitLargeChapter(chapter: Chapter, options: ParseOptions): Chapter[] {
       slug: slugify(sectionTitle),
       sourceFile: `${chapter.sourceFile}#part-${index + 1}`,
       markdown: sectionMarkdown,
-      wordCount: chapterWordCount(sectionMarkdown)
+      wordCount: chapterWordCount(sectionMarkdown),
+      depth: chapter.depth,
+      parent: chapter.parent,
+      tocId: chapter.tocId,
+      parentTocId: chapter.parentTocId
     };
   });
 }
 
+/**
+ * Split a large chapter without separating footnote references from their definitions:
+ * the body is split on its own and each part keeps the definitions it cites.
+ */
+function splitLargeChapterWithFootnotes(chapter: Chapter, options: ParseOptions): Chapter[] {
+  const { body, definitions } = extractFootnoteDefinitions(chapter.markdown);
+  if (definitions.size === 0) {
+    return splitLargeChapter(chapter, options);
+  }
+
+  const parts = splitLargeChapter({ ...chapter, markdown: body, wordCount: chapterWordCount(body) }, options);
+  return parts.map((part) => {
+    const markdown = appendFootnoteDefinitions(part.markdown, definitions);
+    return { ...part, markdown, wordCount: chapterWordCount(markdown) };
+  });
+}
+
+const IMAGE_SRC_PATTERN = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi;
+
+function decodeHrefPath(href: string): string {
+  const withoutFragment = href.split("#")[0];
+  try {
+    return decodeURIComponent(withoutFragment);
+  } catch {
+    return withoutFragment;
+  }
+}
+
+/**
+ * Point every <img> at a content-hashed copy under references/assets/ and collect the
+ * image bytes from the EPUB. Remote, data: and missing sources are left untouched.
+ */
+function collectImageAssets(html: string, zip: AdmZip, documentPath: string, assets: Map<string, SkillAsset>): string {
+  return html.replace(IMAGE_SRC_PATTERN, (full, prefix: string, quote: string, src: string) => {
+    if (!src || /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(src)) {
+      return full;
+    }
+
+    const sourcePath = path.posix.normalize(path.posix.join(path.posix.dirname(documentPath), decodeHrefPath(src)));
+    const entry = zip.getEntry(sourcePath);
+    if (!entry) {
+      return full;
+    }
+
+    const data = entry.getData();
+    const fileName = `${hashContent(data).slice(0, 16)}${path.posix.extname(sourcePath).toLowerCase()}`;
+    if (!assets.has(fileName)) {
+      assets.set(fileName, { fileName, sourcePath, data });
+    }
+    return `${prefix}${quote}assets/${fileName}${quote}`;
+  });
+}
+
 function resolveParseOptions(options?: Partial<ParseOptions>): ParseOptions {
   return {
     ...DEFAULT_PARSE_OPTIONS,
@@ -532,7 +740,8 @@ function resolveParseOptions(options?: Partial<ParseOptions>): ParseOptions {
 
 function finalizeCleanup(markdown: string, options: ParseOptions): string {
   const normalized = unescapeMarkdownSyntax(markdown);
-  return cleanupMarkdown(stripMarkdownLinkDestination(normalized, options.stripInternalLinks), options)
+  const stripInternalLinks = options.stripInternalLinks && !options.rewriteInternalLinks;
+  return cleanupMarkdown(stripMarkdownLinkDestination(normalized, stripInternalLinks), options)
     .replace(/\n{3,}/g, "\n\n")
     .trim();
 }
@@ -554,13 +763,64 @@ function extractContainerOpfPath(zip: AdmZip): string {
   return fullPath;
 }
 
+export type EpubValidation = {
+  version: "2" | "3";
+  opfPath: string;
+};
+
+/**
+ * Check that a file is a structurally valid EPUB 2/3 package that can be parsed
+ * directly, without Calibre normalization. Throws CliError describing the first problem.
+ */
+export function validateEpub(epubPath: string): EpubValidation {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(epubPath);
+  } catch {
+    throw new CliError(`Not a readable EPUB archive: ${epubPath}`, 4);
+  }
+
+  const mimetypeEntry = zip.getEntry("mimetype");
+  if (mimetypeEntry) {
+    const mimetype = mimetypeEntry.getData().toString("utf8").trim();
+    if (mimetype !== "application/epub+zip") {
+      throw new CliError(`Unexpected EPUB mimetype: ${mimetype || "(empty)"}`, 4);
+    }
+  }
+
+  const opfPath = extractContainerOpfPath(zip);
+  const opfEntry = zip.getEntry(opfPath);
+  if (!opfEntry) {
+    throw new CliError(`OPF file not found at ${opfPath}`, 4);
+  }
+
+  const pkg = xmlParser.parse(opfEntry.getData().toString("utf8"))?.package;
+  if (!pkg) {
+    throw new CliError("Invalid OPF package file", 4);
+  }
+
+  const version = String(pkg.version || "").trim();
+  const major = version.split(".")[0];
+  if (major !== "2" && major !== "3") {
+    throw new CliError(`Unsupported EPUB package version: ${version || "(missing)"}`, 4);
+  }
+
+  const manifestIds = new Set(asArray(pkg.manifest?.item).map((item) => item?.id));
+  const spineIdrefs = asArray(pkg.spine?.itemref).map((item) => item?.idref);
+  if (!spineIdrefs.some((idref) => manifestIds.has(idref))) {
+    throw new CliError("EPUB spine does not reference any manifest items", 4);
+  }
+
+  return { version: major, opfPath };
+}
+
 function parseOpf(zip: AdmZip, opfPath: string): { manifest: ManifestItem[]; spine: SpineItem[]; metadata: BookMetadata } {
   const opfEntry = zip.getEntry(opfPath);
   if (!opfEntry) {
     throw new CliError(`OPF file not found at ${opfPath}`, 4);
   }
 
-  const parsed = xmlParser.parse(opfEntry.getData().toString("utf8"));
+  const parsed = opfParser.parse(opfEntry.getData().toString("utf8"));
   const pkg = parsed?.package;
   if (!pkg) {
     throw new CliError("Invalid OPF package file", 4);
@@ -585,7 +845,8 @@ function parseOpf(zip: AdmZip, opfPath: string): { manifest: ManifestItem[]; spi
     authors: creators,
     language: firstMeaningfulText(pkg.metadata?.["dc:language"]),
     publisher: firstMeaningfulText(pkg.metadata?.["dc:publisher"]),
-    tags: subjects
+    tags: subjects,
+    ...readOpfDetails(pkg.metadata)
   };
 
   return { manifest, spine, metadata: opfMetadata };
@@ -604,36 +865,133 @@ function parseNcxEntries(zip: AdmZip, opfDir: string, manifest: ManifestItem[]):
   }
 
   const parsed = xmlParser.parse(entry.getData().toString("utf8"));
-  const navPoints = asArray(parsed?.ncx?.navMap?.navPoint);
+  return parseNcxNavPoints(asArray(parsed?.ncx?.navMap?.navPoint), 1);
+}
+
+type NcxNavPoint = {
+  content?: { src?: unknown };
+  navLabel?: { text?: unknown };
+  navPoint?: NcxNavPoint | NcxNavPoint[];
+};
+
+function parseNcxNavPoints(navPoints: NcxNavPoint[], depth: number, parent?: TocEntry): TocEntry[] {
   const entries: TocEntry[] = [];
   for (const node of navPoints) {
-    const src = node.content?.src;
-    const text = node.navLabel?.text;
-    if (typeof src === "string" && typeof text === "string" && text.trim()) {
-      entries.push({ href: src, title: text.trim() });
+    const src = typeof node?.content?.src === "string" ? node.content.src : "";
+    const text = firstMeaningfulText(node?.navLabel?.text);
+    const nested = asArray(node?.navPoint);
+    if (!text) {
+      entries.push(...parseNcxNavPoints(nested, depth, parent));
+      continue;
     }
+
+    const entry: TocEntry = { href: src, title: cleanTitle(text), depth, parent, children: [] };
+    entry.children = parseNcxNavPoints(nested, depth + 1, entry);
+    entries.push(entry);
   }
 
   return entries;
 }
 
-function toTocLabelMap(entries: TocEntry[]): TocLabelMap {
-  const map: TocLabelMap = new Map();
+function flattenToc(entries: TocEntry[]): TocEntry[] {
+  return entries.flatMap((entry) => [entry, ...flattenToc(entry.children)]);
+}
+
+function toTocEntriesByFile(entries: TocEntry[]): Map<string, TocEntry[]> {
+  const map = new Map<string, TocEntry[]>();
   for (const entry of entries) {
-    const key = normalizeHrefKey(entry.href);
-    if (!map.has(key)) {
-      map.set(key, cleanTitle(entry.title));
+    if (!entry.href) {
+      continue;
     }
+    const key = normalizeHrefKey(entry.href);
+    map.set(key, [...(map.get(key) || []), entry]);
   }
   return map;
 }
 
-function toTocHrefSet(entries: TocEntry[]): Set<string> {
-  const hrefs = new Set<string>();
-  for (const entry of entries) {
-    hrefs.add(normalizeHrefKey(entry.href));
+type SpineSegment = {
+  html: string;
+  entry?: TocEntry;
+  fragment?: string;
+};
+
+function hrefFragment(href: string): string | undefined {
+  const hashIndex = href.indexOf("#");
+  const raw = hashIndex >= 0 ? href.slice(hashIndex + 1) : "";
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "DD", "DIV", "DL", "DT", "FIGURE", "FOOTER", "H1", "H2", "H3",
+  "H4", "H5", "H6", "HEADER", "HR", "LI", "MAIN", "NAV", "OL", "P", "PRE", "SECTION", "TABLE", "UL"
+]);
+
+/**
+ * Offset in the raw HTML where the segment for a fragment starts. Anchors often sit
+ * inside the heading they name (`<h2><a id="x"/>Title</h2>`), so the cut goes before
+ * the anchor's enclosing block element, never into the middle of it.
+ */
+function findAnchorOffset(root: HTMLElement, fragment: string): number {
+  const anchor = root
+    .querySelectorAll("*")
+    .find((element) => element.getAttribute("id") === fragment || element.getAttribute("name") === fragment);
+  if (!anchor) {
+    return -1;
+  }
+
+  let block: HTMLElement = anchor;
+  while (!BLOCK_TAGS.has(block.tagName) && block.parentNode && !["BODY", "HTML"].includes(block.parentNode.tagName)) {
+    block = block.parentNode;
+  }
+  return BLOCK_TAGS.has(block.tagName) ? block.range[0] : anchor.range[0];
+}
+
+/**
+ * Cut one spine document into the pieces its TOC entries point at.
+ * Each fragment entry (`file.xhtml#ch3`) starts a new segment at its anchor element;
+ * content before the first anchor belongs to a fragment-less entry when the TOC has one,
+ * otherwise to the first fragment entry.
+ */
+function splitSpineDocument(html: string, entries: TocEntry[], tocDepth?: number): SpineSegment[] {
+  const wholeFileEntry = entries.find((entry) => !hrefFragment(entry.href));
+  const root = parseHtml(html);
+  const seenOffsets = new Set<number>();
+  const cuts = entries
+    .filter((entry) => !tocDepth || entry.depth <= tocDepth)
+    .map((entry) => {
+      const fragment = hrefFragment(entry.href);
+      return { entry, fragment, offset: fragment ? findAnchorOffset(root, fragment) : -1 };
+    })
+    .filter((cut) => cut.offset >= 0)
+    .sort((first, second) => first.offset - second.offset)
+    .filter((cut) => {
+      if (seenOffsets.has(cut.offset)) {
+        return false;
+      }
+      seenOffsets.add(cut.offset);
+      return true;
+    });
+
+  if (cuts.length === 0) {
+    return [{ html, entry: entries[0] }];
   }
-  return hrefs;
+
+  const owners = wholeFileEntry
+    ? [{ entry: wholeFileEntry, fragment: undefined, offset: 0 }, ...cuts]
+    : cuts.map((cut, index) => (index === 0 ? { ...cut, offset: 0 } : cut));
+
+  return owners.map((owner, index) => ({
+    html: html.slice(owner.offset, owners[index + 1]?.offset ?? html.length),
+    entry: owner.entry,
+    fragment: owner.fragment
+  }));
 }
 
 function deriveSpineHrefs(spine: SpineItem[], manifest: ManifestItem[]): string[] {
@@ -651,8 +1009,22 @@ function deriveSpineHrefs(spine: SpineItem[], manifest: ManifestItem[]): string[
     .map((item) => item.href);
 }
 
-export function parseEpubToChapters(epubPath: string, options?: Partial<ParseOptions>): { metadata: BookMetadata; chapters: Chapter[] } {
-  const parseOptions = resolveParseOptions(options);
+type ExtractedBook = {
+  metadata: BookMetadata;
+  manifest: ManifestItem[];
+  spine: SpineItem[];
+  tocSource: "nav" | "ncx" | "none";
+  tocEntries: TocEntry[];
+  chapters: Chapter[];
+  assets: Map<string, SkillAsset>;
+  linkTargets: Map<string, LinkTarget>;
+  indexEntries: IndexEntry[];
+  // Chapters holding the back-of-book index that indexEntries were read from.
+  indexChapters: Set<Chapter>;
+  sawImageOnlyContent: boolean;
+};
+
+function extractBook(epubPath: string, parseOptions: ParseOptions): ExtractedBook {
   const zip = new AdmZip(epubPath);
   const opfPath = extractContainerOpfPath(zip);
   const opfDir = path.posix.dirname(opfPath);
@@ -661,17 +1033,35 @@ export function parseEpubToChapters(epubPath: string, options?: Partial<ParseOpt
   const nhm = new NodeHtmlMarkdown();
   const navEntries = parseNavEntries(zip, opfDir, manifest);
   const ncxEntries = parseNcxEntries(zip, opfDir, manifest);
-  const preferredTocEntries = navEntries.length > 0 ? navEntries : ncxEntries;
-  const preferredTitleMap = toTocLabelMap(preferredTocEntries);
-  const preferredHrefSet = toTocHrefSet(preferredTocEntries);
+  const tocSource = navEntries.length > 0 ? "nav" : ncxEntries.length > 0 ? "ncx" : "none";
+  const tocEntries = navEntries.length > 0 ? navEntries : ncxEntries;
+  const preferredTocEntries = flattenToc(tocEntries);
+  const tocIds = new Map(preferredTocEntries.map((entry, position) => [entry, position]));
+  const preferredEntriesByFile = toTocEntriesByFile(preferredTocEntries);
   const spineHrefs = deriveSpineHrefs(spine, manifest);
   const tocMatchedSpineHrefs =
-    preferredHrefSet.size > 0
-      ? spineHrefs.filter((href) => preferredHrefSet.has(normalizeHrefKey(href)))
+    preferredEntriesByFile.size > 0
+      ? spineHrefs.filter((href) => preferredEntriesByFile.has(normalizeHrefKey(href)))
       : spineHrefs;
   const chapterHrefs = tocMatchedSpineHrefs.length > 0 ? tocMatchedSpineHrefs : spineHrefs;
 
+  const documents = new Map<string, string>();
+  for (const item of manifest.filter((manifestItem) => /xhtml|html/.test(manifestItem.mediaType))) {
+    const documentPath = path.posix.normalize(path.posix.join(opfDir, item.href));
+    const documentEntry = zip.getEntry(documentPath);
+    if (documentEntry) {
+      documents.set(documentPath, documentEntry.getData().toString("utf8"));
+    }
+  }
+  const toMarkdown = (html: string): string => finalizeCleanup(nhm.translate(html), parseOptions);
+  const footnotes = buildFootnoteIndex(documents, toMarkdown);
+  const citations: FootnoteCitation[] = [];
+
   const chapters: Chapter[] = [];
+  const assets = new Map<string, SkillAsset>();
+  const linkTargets = new Map<string, LinkTarget>();
+  const indexEntries: IndexEntry[] = [];
+  const indexChapters = new Set<Chapter>();
   let sawImageOnlyContent = false;
 
   for (const [index, href] of chapterHrefs.entries()) {
@@ -681,41 +1071,191 @@ export function parseEpubToChapters(epubPath: string, options?: Partial<ParseOpt
       continue;
     }
 
-    const html = entry.getData().toString("utf8");
-    const markdown = finalizeCleanup(nhm.translate(html), parseOptions);
-    if (!markdown) {
-      if (parseOptions.stripImages && /<img\b/i.test(html)) {
-        sawImageOnlyContent = true;
+    const fileHtml = entry.getData().toString("utf8");
+    const fileEntries = preferredEntriesByFile.get(normalizeHrefKey(href)) || [];
+    for (const segment of splitSpineDocument(fileHtml, fileEntries, parseOptions.tocDepth)) {
+      const footnotedHtml = linkFootnotes(segment.html, normalizedPath, footnotes, citations);
+      const linkedHtml = parseOptions.rewriteInternalLinks ? markInternalLinks(footnotedHtml, normalizedPath) : footnotedHtml;
+      const html = parseOptions.stripImages ? linkedHtml : collectImageAssets(linkedHtml, zip, normalizedPath, assets);
+      const markdown = renderFootnotes(toMarkdown(html), citations, footnotes);
+      if (!markdown) {
+        if (parseOptions.stripImages && /<img\b/i.test(html)) {
+          sawImageOnlyContent = true;
+        }
+        continue;
+      }
+
+      // Always collected: the term index needs them even when links are stripped.
+      const registerLinkTargets = (chapter: Chapter): void => {
+        if (!linkTargets.has(normalizedPath)) {
+          linkTargets.set(normalizedPath, { chapter });
+        }
+        for (const target of collectLinkTargets(segment.html, normalizedPath)) {
+          linkTargets.set(target.key, { chapter, heading: target.heading });
+        }
+      };
+
+      const tocEntry = segment.entry;
+      const previousChapter = chapters[chapters.length - 1];
+      if (tocEntry && parseOptions.tocDepth && tocEntry.depth > parseOptions.tocDepth && previousChapter) {
+        // Entries below the requested TOC depth stay inside the enclosing chapter.
+        previousChapter.markdown = mergeFootnotedMarkdown(previousChapter.markdown, markdown);
+        previousChapter.wordCount = chapterWordCount(previousChapter.markdown);
+        registerLinkTargets(previousChapter);
+        continue;
+      }
+
+      const defaultTitle = `Chapter ${index + 1}`;
+      const firstHeading = markdown.match(/^#\s+(.+)$/m)?.[1]?.trim() || "";
+      const title = normalizeChapterTitle(tocEntry?.title || firstHeading || (preferredEntriesByFile.size > 0 ? "" : defaultTitle), defaultTitle);
+      if (!title) {
+        continue;
+      }
+
+      const chapter: Chapter = {
+        index: index + 1,
+        title,
+        slug: slugify(title),
+        sourceFile: segment.fragment ? `${normalizedPath}#${segment.fragment}` : normalizedPath,
+        markdown,
+        wordCount: chapterWordCount(markdown),
+        depth: tocEntry?.depth,
+        parent: tocEntry?.parent?.title,
+        tocId: tocEntry && tocIds.get(tocEntry),
+        parentTocId: tocEntry?.parent && tocIds.get(tocEntry.parent)
+      };
+      chapters.push(chapter);
+      registerLinkTargets(chapter);
+
+      if (isIndexSection(segment.html, title)) {
+        const entries = extractIndexEntries(segment.html, normalizedPath);
+        if (entries.some((entry) => entry.targets.length > 0)) {
+          indexEntries.push(...entries);
+          indexChapters.add(chapter);
+        }
       }
-      continue;
     }
+  }
 
-    const defaultTitle = `Chapter ${index + 1}`;
-    const hrefKey = normalizeHrefKey(href);
-    const tocTitle = preferredTitleMap.get(hrefKey);
-    const firstHeading = markdown.match(/^#\s+(.+)$/m)?.[1]?.trim() || "";
-    const title = normalizeChapterTitle(tocTitle || firstHeading || (preferredHrefSet.size > 0 ? "" : defaultTitle), defaultTitle);
-    if (!title) {
-      continue;
+  // An index left out of the TOC is not a chapter, but its entries are still useful.
+  for (const href of spineHrefs.filter((spineHref) => !chapterHrefs.includes(spineHref))) {
+    const documentPath = path.posix.normalize(path.posix.join(opfDir, href));
+    const html = documents.get(documentPath);
+    if (html && isIndexSection(html, "")) {
+      indexEntries.push(...extractIndexEntries(html, documentPath));
     }
+  }
 
-    chapters.push({
-      index: index + 1,
-      title,
-      slug: slugify(title),
-      sourceFile: normalizedPath,
-      markdown,
-      wordCount: chapterWordCount(markdown)
+  return {
+    metadata,
+    manifest,
+    spine,
+    tocSource,
+    tocEntries,
+    chapters,
+    assets,
+    linkTargets,
+    indexEntries,
+    indexChapters,
+    sawImageOnlyContent
+  };
+}
+
+function filterAndSplitChapters(
+  chapters: Chapter[],
+  options: ParseOptions,
+  linkTargets: Map<string, LinkTarget>,
+  indexChapters: Set<Chapter> = new Set()
+): { chapters: Chapter[]; excluded: ExcludedChapter[]; locate: (key: string) => ChapterLocation | undefined } {
+  const excluded: ExcludedChapter[] = [];
+  const userRules = compileUserRules(options.rules);
+  const includes = (options.includeChapters ?? []).map((pattern) => compileChapterFilter(pattern, "--include-chapter"));
+  const excludes = (options.excludeChapters ?? []).map((pattern) => compileChapterFilter(pattern, "--exclude-chapter"));
+  const positions = new Map(chapters.map((chapter, position) => [chapter, position + 1]));
+  const dropped: Chapter[] = [];
+
+  // Split parts are judged by their own content but share their origin's include/exclude match.
+  const keepChapter = (chapter: Chapter, origin: Chapter = chapter): boolean => {
+    const position = positions.get(origin) ?? 0;
+    const exclude = excludes.find((filter) => filter.matches(origin, position));
+    const included = includes.some((filter) => filter.matches(origin, position));
+    let match: BoilerplateMatch | undefined;
+    if (exclude) {
+      match = { rule: { id: "exclude-chapter" }, reason: `matched --exclude-chapter ${JSON.stringify(exclude.pattern)}` };
+    } else if (included) {
+      return true;
+    } else if (options.filterBoilerplate && indexChapters.has(chapter)) {
+      match = {
+        rule: { id: "back-of-book-index" },
+        reason: "back-of-book index; converted into references/term-index.md"
+      };
+    } else {
+      match = matchBoilerplateRule(chapter, options, userRules);
+    }
+    if (!match) {
+      return true;
+    }
+    excluded.push({
+      title: chapter.title,
+      sourceFile: chapter.sourceFile,
+      wordCount: chapter.wordCount,
+      ruleId: match.rule.id,
+      reason: match.reason
     });
-  }
+    dropped.push(chapter);
+    return false;
+  };
 
   const filteredAndSplit = chapters
-    .filter((chapter) => !isBoilerplateChapter(chapter, parseOptions))
-    .flatMap((chapter) => splitLargeChapter(chapter, parseOptions))
-    .filter((chapter) => !isBoilerplateChapter(chapter, parseOptions));
+    .filter((chapter) => keepChapter(chapter))
+    .flatMap((origin) => splitLargeChapterWithFootnotes(origin, options).map((chapter) => ({ chapter, origin })))
+    .filter(({ chapter, origin }) => keepChapter(chapter, origin));
+
+  // Reindex after filtering empty sections so output filenames are contiguous.
+  const reindexed = filteredAndSplit.map(({ chapter }, idx) => ({
+    ...chapter,
+    index: idx + 1
+  }));
+  const origins = filteredAndSplit.map(({ origin }) => origin);
+  const linked = resolveInternalLinks(reindexed, origins, linkTargets);
+  const locateTarget = createLinkLocator(reindexed, origins);
+  const locate = (key: string): ChapterLocation | undefined => {
+    const target = linkTargets.get(key) ?? linkTargets.get(key.split("#")[0]);
+    return target && locateTarget(target);
+  };
 
-  if (filteredAndSplit.length === 0) {
-    if (sawImageOnlyContent) {
+  if (options.keepExcluded) {
+    // Dropped chapters are not linked into the skill; their links keep only the text.
+    const unlinked = resolveInternalLinks(dropped, [], new Map());
+    excluded.forEach((entry, position) => {
+      entry.markdown = unlinked[position].markdown;
+    });
+  }
+
+  return { chapters: linked, excluded, locate };
+}
+
+export function parseEpubToChapters(
+  epubPath: string,
+  options?: Partial<ParseOptions>
+): {
+  metadata: BookMetadata;
+  chapters: Chapter[];
+  excluded: ExcludedChapter[];
+  assets: SkillAsset[];
+  termIndex: TermIndexEntry[];
+} {
+  const parseOptions = resolveParseOptions(options);
+  const book = extractBook(epubPath, parseOptions);
+  const { chapters, excluded, locate } = filterAndSplitChapters(
+    book.chapters,
+    parseOptions,
+    book.linkTargets,
+    book.indexChapters
+  );
+
+  if (chapters.length === 0) {
+    if (book.sawImageOnlyContent) {
       throw new CliError(
         "No text could be extracted. The converted EPUB appears image-only (common with scanned PDFs). OCR is required; this version does not support OCR.",
         4
@@ -725,11 +1265,60 @@ export function parseEpubToChapters(epubPath: string, options?: Partial<ParseOpt
     throw new CliError("No chapter content could be extracted from converted EPUB", 4);
   }
 
-  // Reindex after filtering empty sections so output filenames are contiguous.
-  const reindexed = filteredAndSplit.map((chapter, idx) => ({
-    ...chapter,
-    index: idx + 1
-  }));
+  // Images only referenced by dropped chapters are not copied into the skill.
+  const assets = [...book.assets.values()].filter((asset) =>
+    chapters.some((chapter) => chapter.markdown.includes(`assets/${asset.fileName}`))
+  );
 
-  return { metadata, chapters: reindexed };
+  return { metadata: book.metadata, chapters, excluded, assets, termIndex: resolveTermIndex(book.indexEntries, locate) };
+}
+
+export type EpubInspection = {
+  metadata: BookMetadata;
+  spine: { idref: string; href?: string; mediaType?: string; inToc: boolean }[];
+  tocSource: "nav" | "ncx" | "none";
+  toc: { title: string; href: string; depth: number }[];
+  chapters: { index: number; title: string; sourceFile: string; wordCount: number; depth?: number; parent?: string }[];
+  excluded: ExcludedChapter[];
+};
+
+/**
+ * Run the same extraction as parseEpubToChapters but report every intermediate step
+ * (spine, TOC, produced chapters, boilerplate drops) instead of throwing on empty output.
+ */
+export function inspectEpub(epubPath: string, options?: Partial<ParseOptions>): EpubInspection {
+  const parseOptions = resolveParseOptions(options);
+  const book = extractBook(epubPath, parseOptions);
+  const { chapters, excluded } = filterAndSplitChapters(
+    book.chapters,
+    parseOptions,
+    book.linkTargets,
+    book.indexChapters
+  );
+  const tocFiles = toTocEntriesByFile(flattenToc(book.tocEntries));
+  const manifestById = new Map(book.manifest.map((item) => [item.id, item]));
+
+  return {
+    metadata: book.metadata,
+    spine: book.spine.map((item) => {
+      const manifestItem = manifestById.get(item.idref);
+      return {
+        idref: item.idref,
+        href: manifestItem?.href,
+        mediaType: manifestItem?.mediaType,
+        inToc: Boolean(manifestItem && tocFiles.has(normalizeHrefKey(manifestItem.href)))
+      };
+    }),
+    tocSource: book.tocSource,
+    toc: flattenToc(book.tocEntries).map((entry) => ({ title: entry.title, href: entry.href, depth: entry.depth })),
+    chapters: chapters.map((chapter) => ({
+      index: chapter.index,
+      title: chapter.title,
+      sourceFile: chapter.sourceFile,
+      wordCount: chapter.wordCount,
+      depth: chapter.depth,
+      parent: chapter.parent
+    })),
+    excluded
+  };
 }
@@ -0,0 +1,174 @@
+export const SEARCH_INDEX_PATH = "references/search-index.json";
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "if", "in", "into", "is", "it",
+  "its", "of", "on", "or", "so", "that", "the", "their", "then", "there", "these", "this", "to", "was",
+  "were", "which", "will", "with"
+]);
+
+export type SearchPassage = {
+  file: string;
+  headingPath: string[];
+  // 1-based, inclusive line range of the passage in `file`.
+  line: number;
+  endLine: number;
+  // Character offset and length of the passage in `file`.
+  offset: number;
+  length: number;
+  tokens: number;
+};
+
+export type SearchIndex = {
+  version: 1;
+  algorithm: "bm25";
+  params: { k1: number; b: number };
+  averageLength: number;
+  passages: SearchPassage[];
+  // Term -> [passage position, term frequency] pairs, in passage order.
+  terms: Record<string, [number, number][]>;
+};
+
+export type RankedPassage = {
+  passage: SearchPassage;
+  score: number;
+};
+
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) || []
+  ).filter((token) => !STOPWORDS.has(token));
+}
+
+function isFrontmatterStart(lines: string[]): boolean {
+  return lines[0] === "---" && lines.indexOf("---", 1) > 0;
+}
+
+/**
+ * Split a markdown file into paragraph passages, skipping frontmatter. Headings are not
+ * passages themselves; they set the heading path of the passages that follow them.
+ */
+function filePassages(file: string, content: string): { passage: SearchPassage; tokens: string[] }[] {
+  const lines = content.split("\n");
+  const firstLine = isFrontmatterStart(lines) ? lines.indexOf("---", 1) + 1 : 0;
+  const headings: { level: number; text: string }[] = [];
+  const passages: { passage: SearchPassage; tokens: string[] }[] = [];
+
+  let offset = 0;
+  const lineOffsets = lines.map((line) => {
+    const start = offset;
+    offset += line.length + 1;
+    return start;
+  });
+
+  let start = -1;
+  const flush = (end: number): void => {
+    if (start === -1) {
+      return;
+    }
+    const text = lines.slice(start, end).join("\n");
+    const tokens = tokenize(text);
+    if (tokens.length > 0) {
+      passages.push({
+        passage: {
+          file,
+          headingPath: headings.map((heading) => heading.text),
+          line: start + 1,
+          endLine: end,
+          offset: lineOffsets[start],
+          length: text.length,
+          tokens: tokens.length
+        },
+        tokens
+      });
+    }
+    start = -1;
+  };
+
+  for (let position = firstLine; position < lines.length; position += 1) {
+    const line = lines[position];
+    const heading = line.match(/^(#{1,6})\s+(.+)$/);
+    if (heading) {
+      flush(position);
+      const level = heading[1].length;
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+        headings.pop();
+      }
+      headings.push({ level, text: heading[2].trim() });
+      continue;
+    }
+    if (!line.trim()) {
+      flush(position);
+      continue;
+    }
+    if (start === -1) {
+      start = position;
+    }
+  }
+  flush(lines.length);
+
+  return passages;
+}
+
+/**
+ * Build a BM25 inverted index over the paragraphs of the given files. The output only
+ * depends on the file contents and their order, so unchanged books produce identical indexes.
+ */
+export function buildSearchIndex(files: { file: string; content: string }[]): SearchIndex {
+  const entries = files.flatMap(({ file, content }) => filePassages(file, content));
+  const postings = new Map<string, [number, number][]>();
+
+  entries.forEach(({ tokens }, position) => {
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    for (const [term, frequency] of frequencies) {
+      const list = postings.get(term) || [];
+      list.push([position, frequency]);
+      postings.set(term, list);
+    }
+  });
+
+  const totalTokens = entries.reduce((sum, { tokens }) => sum + tokens.length, 0);
+  return {
+    version: 1,
+    algorithm: "bm25",
+    params: { k1: BM25_K1, b: BM25_B },
+    averageLength: entries.length > 0 ? Number((totalTokens / entries.length).toFixed(4)) : 0,
+    passages: entries.map(({ passage }) => passage),
+    terms: Object.fromEntries([...postings].sort(([first], [second]) => (first < second ? -1 : first > second ? 1 : 0)))
+  };
+}
+
+export function rankPassages(index: SearchIndex, query: string, limit: number): RankedPassage[] {
+  const { k1, b } = index.params;
+  const passageCount = index.passages.length;
+  const scores = new Map<number, number>();
+
+  for (const term of new Set(tokenize(query))) {
+    // The index is parsed JSON; never fall through to Object.prototype names like "constructor".
+    const postings = Object.hasOwn(index.terms, term) ? index.terms[term] : undefined;
+    if (!postings) {
+      continue;
+    }
+    const idf = Math.log(1 + (passageCount - postings.length + 0.5) / (postings.length + 0.5));
+    for (const [position, frequency] of postings) {
+      const length = index.passages[position].tokens;
+      const normalization = k1 * (1 - b + (b * length) / (index.averageLength || 1));
+      const score = (idf * frequency * (k1 + 1)) / (frequency + normalization);
+      scores.set(position, (scores.get(position) || 0) + score);
+    }
+  }
+
+  return [...scores]
+    .sort(([firstPosition, firstScore], [secondPosition, secondScore]) => secondScore - firstScore || firstPosition - secondPosition)
+    .slice(0, limit)
+    .map(([position, score]) => ({ passage: index.passages[position], score }));
+}
@@ -1,10 +1,31 @@
 import fs from "node:fs";
 import path from "node:path";
-import { CliError, type BookMetadata, type Chapter, type SkillWriteOptions } from "./types";
+import { buildChunks, CHUNKS_PATH, renderChunksJsonl } from "./chunks";
+import { FORMAT_WRITERS, type FormatChapter, type FormatWriter } from "./formats";
+import { linkChapterFiles } from "./internal-links";
+import { extractKeywords } from "./keywords";
+import { buildManifest, MANIFEST_PATH, readManifest, type SkillManifest } from "./manifest";
+import { slugify } from "./parser";
+import { buildSearchIndex, SEARCH_INDEX_PATH } from "./search-index";
+import { summarizeChapter } from "./summarize";
+import { parseTemplate, renderTemplate, type TemplateContext } from "./template";
+import { renderTermIndex, TERM_INDEX_JSON_PATH, TERM_INDEX_MARKDOWN_PATH } from "./term-index";
+import { estimateTokens } from "./tokens";
+import { yamlPlainOrQuoted, yamlScalar } from "./yaml-scalar";
+import {
+  CliError,
+  type BookMetadata,
+  type Chapter,
+  type ExcludedChapter,
+  type SkillAsset,
+  type SkillWriteOptions,
+  type SkillWriteResult,
+  type TermIndexEntry
+} from "./types";
 
 const FALLBACK_SKILL_TEMPLATE = `---
-name: {{name}}
-description: {{description}}
+name: {{name_yaml}}
+description: {{description_yaml}}
 ---
 
 # {{name}}
@@ -24,17 +45,77 @@ Use it for factual retrieval and chapter-specific lookup.
 
 - Title: {{book_title}}
 - Authors: {{book_authors}}
+{{#if book_contributors}}
+- Contributors: {{book_contributors}}
+{{/if}}
+{{#if book_series}}
+- Series: {{book_series}}
+{{/if}}
 - Language: {{book_language}}
 - Publisher: {{book_publisher}}
+{{#if book.date}}
+- Published: {{book.date}}
+{{/if}}
+{{#if book_identifiers}}
+- Identifiers: {{book_identifiers}}
+{{/if}}
 - Tags: {{book_tags}}
 
+{{#if book.description}}
+## About the Book
+
+{{book.description}}
+{{/if}}
+
+{{term_index}}
+
 ## Chapter Index
 
 {{chapter_index}}
 `;
 
-function yamlScalar(value: string): string {
-  return JSON.stringify(value);
+// MARC relator codes commonly found on EPUB creators and contributors.
+const ROLE_LABELS: Record<string, string> = {
+  aut: "author",
+  edt: "editor",
+  trl: "translator",
+  ill: "illustrator",
+  nrt: "narrator",
+  aui: "foreword",
+  aft: "afterword",
+  pht: "photographer",
+  ctb: "contributor"
+};
+
+function formatContributors(metadata: BookMetadata): string {
+  return (metadata.contributors ?? [])
+    .map(({ name, role }) => (role ? `${name} (${ROLE_LABELS[role.toLowerCase()] ?? role})` : name))
+    .join(", ");
+}
+
+function formatSeries(metadata: BookMetadata): string {
+  if (!metadata.series) {
+    return "";
+  }
+  return metadata.seriesIndex === undefined ? metadata.series : `${metadata.series} #${metadata.seriesIndex}`;
+}
+
+/** Book-level identification fields shared by book_full.md and (prefixed) chapter frontmatter. */
+function bookFrontmatterLines(metadata: BookMetadata, prefix = ""): string[] {
+  const lines: string[] = [];
+  if (metadata.isbn) {
+    lines.push(`${prefix}isbn: ${yamlScalar(metadata.isbn)}`);
+  }
+  if (metadata.date) {
+    lines.push(`${prefix}date: ${yamlScalar(metadata.date)}`);
+  }
+  if (metadata.series) {
+    lines.push(`${prefix}series: ${yamlScalar(metadata.series)}`);
+  }
+  if (metadata.seriesIndex !== undefined) {
+    lines.push(`${prefix}series_index: ${metadata.seriesIndex}`);
+  }
+  return lines;
 }
 
 function readTemplate(): string {
@@ -64,12 +145,15 @@ function safeValue(value: string | undefined, fallback = "Unknown"): string {
   return value && value.trim() ? value.trim() : fallback;
 }
 
-function renderTemplate(template: string, pairs: Record<string, string>): string {
-  let rendered = template;
-  for (const [key, value] of Object.entries(pairs)) {
-    rendered = rendered.replaceAll(`{{${key}}}`, value);
+function termIndexSection(termIndex: TermIndexEntry[]): string {
+  if (termIndex.length === 0) {
+    return "";
   }
-  return rendered;
+  return [
+    "## Term Index",
+    "",
+    `Look up a term from the book's index in \`${TERM_INDEX_MARKDOWN_PATH}\` (${termIndex.length} terms, also as \`${TERM_INDEX_JSON_PATH}\`). Each term links to the chapters that discuss it.`
+  ].join("\n");
 }
 
 function chapterFileName(chapterPrefix: string, chapter: Chapter): string {
@@ -77,70 +161,400 @@ function chapterFileName(chapterPrefix: string, chapter: Chapter): string {
   return `${chapterPrefix}${padded}-${chapter.slug}.md`;
 }
 
-function chapterFrontmatter(chapter: Chapter): string {
-  return `---\ntitle: ${yamlScalar(chapter.title)}\nindex: ${chapter.index}\nsource_file: ${yamlScalar(chapter.sourceFile)}\nword_count: ${chapter.wordCount}\n---\n\n`;
+// Frontmatter fields computed at write time rather than stored on the chapter.
+type ChapterExtras = {
+  tokenEstimate: number;
+  summary?: string;
+  keywords: string[];
+};
+
+/** Per-chapter fields available to templates, in the snake_case of the frontmatter. */
+function chapterTemplateFields(chapter: Chapter, file: string, content: string, extras: ChapterExtras): TemplateContext {
+  return {
+    index: chapter.index,
+    title: chapter.title,
+    slug: chapter.slug,
+    file,
+    source_file: chapter.sourceFile,
+    word_count: chapter.wordCount,
+    token_estimate: extras.tokenEstimate,
+    depth: chapter.depth ?? 1,
+    parent: chapter.parent,
+    summary: extras.summary,
+    keywords: extras.keywords,
+    content
+  };
+}
+
+function chapterFrontmatter(
+  chapter: Chapter,
+  metadata: BookMetadata,
+  { tokenEstimate, summary, keywords }: ChapterExtras
+): string {
+  const lines = [
+    `title: ${yamlScalar(chapter.title)}`,
+    `index: ${chapter.index}`,
+    `source_file: ${yamlScalar(chapter.sourceFile)}`,
+    `word_count: ${chapter.wordCount}`,
+    `token_estimate: ${tokenEstimate}`
+  ];
+  if (chapter.depth) {
+    lines.push(`toc_depth: ${chapter.depth}`);
+  }
+  if (chapter.parent) {
+    lines.push(`parent: ${yamlScalar(chapter.parent)}`);
+  }
+  if (keywords.length > 0) {
+    lines.push(`keywords: [${keywords.map(yamlScalar).join(", ")}]`);
+  }
+  if (summary) {
+    lines.push(`summary: ${yamlScalar(summary)}`);
+  }
+  lines.push(...bookFrontmatterLines(metadata, "book_"));
+  return `---\n${lines.join("\n")}\n---\n\n`;
+}
+
+function indexIndent(depth: number | undefined): string {
+  return "  ".repeat(Math.max(0, (depth ?? 1) - 1));
+}
+
+/**
+ * Render the SKILL.md chapter index as a nested list that follows the TOC hierarchy.
+ * Parents are matched by TOC position rather than by title, since titles such as
+ * "Exercises" repeat. A parent without a chapter file of its own (for example a Part
+ * heading) is emitted as a plain list item so its children have somewhere to nest.
+ */
+function renderChapterIndex(chapters: Chapter[], rows: string[]): string {
+  // TOC id of the entry currently open at each depth.
+  const openIds: (number | undefined)[] = [];
+  const lines: string[] = [];
+
+  chapters.forEach((chapter, position) => {
+    const depth = chapter.depth ?? 1;
+    const parentId = chapter.parentTocId;
+    if (chapter.parent && parentId !== undefined && depth > 1 && openIds[depth - 1] !== parentId) {
+      lines.push(`${indexIndent(depth - 1)}- ${chapter.parent}`);
+      openIds.length = depth;
+      openIds[depth - 1] = parentId;
+    }
+    lines.push(`${indexIndent(depth)}${rows[position]}`);
+    openIds.length = depth + 1;
+    openIds[depth] = chapter.tocId;
+  });
+
+  return lines.join("\n");
 }
 
 function fullBookFrontmatter(metadata: BookMetadata, chapterCount: number): string {
   const authors = metadata.authors.length > 0 ? metadata.authors.join(", ") : "Unknown";
-  return `---\ntitle: ${yamlScalar(safeValue(metadata.title))}\nauthors: ${yamlScalar(authors)}\nchapter_count: ${chapterCount}\n---\n\n`;
+  const lines = [
+    `title: ${yamlScalar(safeValue(metadata.title))}`,
+    `authors: ${yamlScalar(authors)}`,
+    ...bookFrontmatterLines(metadata),
+    `chapter_count: ${chapterCount}`
+  ];
+  return `---\n${lines.join("\n")}\n---\n\n`;
 }
 
-function ensureOutputDirectory(outDir: string, overwrite: boolean): void {
-  if (fs.existsSync(outDir)) {
-    if (!overwrite) {
-      throw new CliError(`Output directory already exists: ${outDir}. Use --overwrite to replace it.`, 5);
+export const EXCLUDED_REPORT_PATH = "references/_excluded.json";
+export const EXCLUDED_DIR = "references/_excluded";
+
+/**
+ * The audit trail of chapters the filters dropped. Chapters parsed with keepExcluded
+ * are also written to references/_excluded/ for review; SKILL.md never links them.
+ */
+function excludedFiles(excluded: ExcludedChapter[]): [string, string][] {
+  const files: [string, string][] = [];
+  const report = excluded.map(({ markdown, ...entry }, position) => {
+    if (markdown === undefined) {
+      return entry;
     }
-    fs.rmSync(outDir, { recursive: true, force: true });
+    const file = `${EXCLUDED_DIR}/${String(position + 1).padStart(3, "0")}-${slugify(entry.title)}.md`;
+    const lines = [
+      `title: ${yamlScalar(entry.title)}`,
+      `source_file: ${yamlScalar(entry.sourceFile)}`,
+      `word_count: ${entry.wordCount}`,
+      `excluded_by: ${yamlScalar(entry.ruleId)}`,
+      `reason: ${yamlScalar(entry.reason)}`
+    ];
+    files.push([file, `---\n${lines.join("\n")}\n---\n\n${markdown}\n`]);
+    return { ...entry, file };
+  });
+  return [[EXCLUDED_REPORT_PATH, `${JSON.stringify({ excluded: report }, null, 2)}\n`], ...files];
+}
+
+function assertOutputWritable(outDir: string, overwrite: boolean): void {
+  if (fs.existsSync(outDir) && !overwrite) {
+    throw new CliError(`Output directory already exists: ${outDir}. Use --overwrite to replace it.`, 5);
   }
+}
 
-  fs.mkdirSync(outDir, { recursive: true });
+function siblingDir(outDir: string, label: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return path.join(path.dirname(outDir), `.${path.basename(outDir)}.${label}-${stamp}`);
 }
 
-export function writeSkill(
+/**
+ * Swap a fully written staging directory into place. The previous skill is renamed
+ * aside first and moved back if the final rename fails. Returns where the previous
+ * skill now lives, if there was one.
+ */
+function swapIntoPlace(stagingDir: string, outDir: string, keepBackup: boolean): string | undefined {
+  if (!fs.existsSync(outDir)) {
+    fs.renameSync(stagingDir, outDir);
+    return undefined;
+  }
+
+  const previousDir = siblingDir(outDir, keepBackup ? "backup" : "previous");
+  fs.renameSync(outDir, previousDir);
+  try {
+    fs.renameSync(stagingDir, outDir);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "unknown error";
+    try {
+      fs.renameSync(previousDir, outDir);
+    } catch {
+      // Nothing is deleted here: both copies stay where the message says they are.
+      throw new CliError(
+        `Could not write skill to ${outDir}: ${message}. The previous skill could not be moved back and is at ${previousDir}; the new skill is staged at ${stagingDir}.`,
+        5
+      );
+    }
+    throw error;
+  }
+  return previousDir;
+}
+
+// Every generated file, keyed by its path relative to the skill directory.
+type SkillFiles = Map<string, string | Buffer>;
+
+function renderSkillFiles(
   metadata: BookMetadata,
   chapters: Chapter[],
-  options: SkillWriteOptions
-): { outDir: string; skillFilePath: string } {
-  ensureOutputDirectory(options.outDir, options.overwrite);
+  options: SkillWriteOptions,
+  assets: SkillAsset[],
+  termIndex: TermIndexEntry[]
+): { files: SkillFiles; entryFile: string } {
+  const files: SkillFiles = new Map();
+  const fileNames = new Map(chapters.map((chapter) => [chapter.index, chapterFileName(options.chapterPrefix, chapter)]));
+  const chapterMarkdown = (chapter: Chapter): string =>
+    linkChapterFiles(chapter.markdown, (index) => fileNames.get(index));
 
-  const refsDir = path.join(options.outDir, "references");
-  fs.mkdirSync(refsDir, { recursive: true });
+  const templates = options.templates ?? {};
+  const chapterTemplate = templates.chapter === undefined ? undefined : parseTemplate(templates.chapter, "chapter");
+  const book: TemplateContext = { ...metadata };
 
-  const chapterRows = chapters.map((chapter) => {
+  const chapterFiles: { file: string; content: string }[] = [];
+  const chapterFields: TemplateContext[] = [];
+  const formatChapters: FormatChapter[] = [];
+  const keywords = options.keywords ? extractKeywords(chapters).chapters : [];
+  const chapterRows = chapters.map((chapter, position) => {
     const fileName = chapterFileName(options.chapterPrefix, chapter);
-    const chapterContent = `${chapterFrontmatter(chapter)}${chapter.markdown}\n`;
-    fs.writeFileSync(path.join(refsDir, fileName), chapterContent, "utf8");
-    return `- ${chapter.index}. [${chapter.title}](references/${fileName}) (${chapter.wordCount} words)`;
+    const markdown = chapterMarkdown(chapter);
+    const extras: ChapterExtras = {
+      tokenEstimate: estimateTokens(markdown),
+      summary: options.summaries ? summarizeChapter(chapter.markdown, chapter.wordCount) : undefined,
+      keywords: keywords[position] || []
+    };
+    const frontmatter = chapterFrontmatter(chapter, metadata, extras);
+    const fields = chapterTemplateFields(chapter, `references/${fileName}`, markdown, extras);
+    chapterFields.push(fields);
+    formatChapters.push({ chapter, file: `references/${fileName}`, content: markdown, ...extras });
+    const content = chapterTemplate
+      ? renderTemplate(chapterTemplate, { name: options.skillName, book, chapter: fields, frontmatter, content: markdown })
+      : `${frontmatter}${markdown}\n`;
+    files.set(`references/${fileName}`, content);
+    chapterFiles.push({ file: `references/${fileName}`, content });
+
+    let row = `- ${chapter.index}. [${chapter.title}](references/${fileName}) (${chapter.wordCount} words, ~${extras.tokenEstimate} tokens)`;
+    if (extras.keywords.length > 0) {
+      row += ` [keywords: ${extras.keywords.join(", ")}]`;
+    }
+    return extras.summary ? `${row}: ${extras.summary}` : row;
   });
 
   if (options.includeFullBook) {
-    const all = chapters
-      .map((chapter) => `\n## ${chapter.index}. ${chapter.title}\n\n${chapter.markdown}\n`)
-      .join("\n");
-    const fullBook = `${fullBookFrontmatter(metadata, chapters.length)}${all}`;
-    fs.writeFileSync(path.join(refsDir, "book_full.md"), fullBook, "utf8");
-  }
-
-  const template = readTemplate();
-  const skillMd = renderTemplate(template, {
-    name: options.skillName,
-    description: options.description,
-    book_title: safeValue(metadata.title),
-    book_authors: metadata.authors.length > 0 ? metadata.authors.join(", ") : "Unknown",
-    book_language: safeValue(metadata.language),
-    book_publisher: safeValue(metadata.publisher),
-    book_tags: metadata.tags.length > 0 ? metadata.tags.join(", ") : "None",
-    chapter_index: chapterRows.join("\n")
+    const frontmatter = fullBookFrontmatter(metadata, chapters.length);
+    const content =
+      templates.fullBook === undefined
+        ? `${frontmatter}${chapterFields.map(({ index, title, content }) => `\n## ${index}. ${title}\n\n${content}\n`).join("\n")}`
+        : renderTemplate(parseTemplate(templates.fullBook, "book_full.md"), {
+            name: options.skillName,
+            book,
+            frontmatter,
+            chapters: chapterFields
+          });
+    files.set("references/book_full.md", content);
+  }
+
+  const renderSkillMd: FormatWriter = () => {
+    const template = parseTemplate(templates.skill ?? readTemplate(), "SKILL.md");
+    const skillMd = renderTemplate(template, {
+      name: options.skillName,
+      description: options.description,
+      name_yaml: yamlPlainOrQuoted(options.skillName),
+      description_yaml: yamlPlainOrQuoted(options.description),
+      book,
+      chapters: chapterFields,
+      terms: termIndex.length,
+      book_title: safeValue(metadata.title),
+      book_authors: metadata.authors.length > 0 ? metadata.authors.join(", ") : "Unknown",
+      book_language: safeValue(metadata.language),
+      book_publisher: safeValue(metadata.publisher),
+      book_tags: metadata.tags.length > 0 ? metadata.tags.join(", ") : "None",
+      book_contributors: formatContributors(metadata),
+      book_identifiers: (metadata.identifiers ?? [])
+        .map(({ value, scheme }) => (scheme ? `${scheme} ${value}` : value))
+        .join(", "),
+      book_series: formatSeries(metadata),
+      term_index: termIndexSection(termIndex),
+      chapter_index: renderChapterIndex(chapters, chapterRows)
+    });
+    // Optional sections render empty; do not leave a gap where they would be.
+    return [["SKILL.md", `${skillMd.replace(/\n{3,}/g, "\n\n").trim()}\n`]];
+  };
+
+  // Every layout shares the chapter files above; each adds its own entry files.
+  const formatInput = { metadata, chapters: formatChapters, name: options.skillName, description: options.description };
+  const entryFiles: string[] = [];
+  for (const format of options.formats ?? ["skill"]) {
+    const render = format === "skill" ? renderSkillMd : FORMAT_WRITERS[format];
+    for (const [file, content] of render(formatInput)) {
+      entryFiles.push(file);
+      files.set(file, content);
+    }
+  }
+
+  // Chapter markdown links images as assets/<hash>.<ext>, relative to references/.
+  for (const asset of assets) {
+    files.set(`references/assets/${asset.fileName}`, asset.data);
+  }
+
+  if (termIndex.length > 0) {
+    const { markdown, json } = renderTermIndex(termIndex, chapters, (index) => fileNames.get(index));
+    files.set(TERM_INDEX_MARKDOWN_PATH, markdown);
+    files.set(TERM_INDEX_JSON_PATH, json);
+  }
+
+  if (options.chunks) {
+    const chunkInput = chapters.map((chapter) => ({
+      chapter,
+      file: `references/${chapterFileName(options.chapterPrefix, chapter)}`,
+      markdown: chapterMarkdown(chapter)
+    }));
+    files.set(CHUNKS_PATH, renderChunksJsonl(buildChunks(chunkInput, options.chunks)));
+  }
+
+  // Only chapter files are indexed; book_full.md would duplicate every passage.
+  if (options.searchIndex) {
+    files.set(SEARCH_INDEX_PATH, `${JSON.stringify(buildSearchIndex(chapterFiles))}\n`);
+  }
+
+  if (options.excluded && options.excluded.length > 0) {
+    for (const [file, content] of excludedFiles(options.excluded)) {
+      files.set(file, content);
+    }
+  }
+
+  const manifest = buildManifest(files, options.source ?? null, options.recordedOptions ?? {});
+  files.set(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+
+  return { files, entryFile: entryFiles[0] ?? "SKILL.md" };
+}
+
+function writeStagedSkill(outDir: string, files: SkillFiles, keepBackup: boolean): string | undefined {
+  const parentDir = path.dirname(outDir);
+  fs.mkdirSync(parentDir, { recursive: true });
+  const stagingDir = fs.mkdtempSync(path.join(parentDir, `.${path.basename(outDir)}.staging-`));
+
+  let previousDir: string | undefined;
+  try {
+    for (const [relativePath, content] of files) {
+      const target = path.join(stagingDir, relativePath);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, content);
+    }
+    previousDir = swapIntoPlace(stagingDir, outDir, keepBackup);
+  } catch (error) {
+    if (error instanceof CliError) {
+      throw error;
+    }
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+    const message = error instanceof Error ? error.message : "unknown error";
+    throw new CliError(`Could not write skill to ${outDir}: ${message}. Any existing skill was left in place.`, 5);
+  }
+
+  if (previousDir && !keepBackup) {
+    fs.rmSync(previousDir, { recursive: true, force: true });
+    return undefined;
+  }
+  return previousDir;
+}
+
+/**
+ * Rewrite only the files whose content changed, each through a temp file and rename,
+ * and delete files the previous manifest listed that are no longer produced.
+ */
+function updateSkillInPlace(
+  outDir: string,
+  files: SkillFiles,
+  previous: SkillManifest
+): { changed: string[]; removed: string[] } {
+  const changed: string[] = [];
+  for (const [relativePath, content] of files) {
+    const target = path.join(outDir, relativePath);
+    if (fs.existsSync(target) && fs.readFileSync(target).equals(Buffer.from(content))) {
+      continue;
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    const tempPath = `${target}.tmp-${process.pid}`;
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, target);
+    changed.push(relativePath);
+  }
+
+  const root = path.resolve(outDir);
+  const removed = Object.keys(previous.files).filter((relativePath) => {
+    const target = path.resolve(root, relativePath);
+    // Never follow a manifest entry out of the skill directory.
+    if (files.has(relativePath) || !target.startsWith(`${root}${path.sep}`) || !fs.existsSync(target)) {
+      return false;
+    }
+    fs.rmSync(target, { force: true });
+    return true;
   });
 
-  const skillFilePath = path.join(options.outDir, "SKILL.md");
-  fs.writeFileSync(skillFilePath, `${skillMd.trim()}\n`, "utf8");
+  return { changed, removed };
+}
 
-  return {
+/**
+ * Write the skill into a sibling staging directory and swap it into place only after
+ * every file is written, so a failed run leaves any existing skill untouched.
+ * With `update`, the existing skill is patched in place instead (see updateSkillInPlace).
+ */
+export function writeSkill(
+  metadata: BookMetadata,
+  chapters: Chapter[],
+  options: SkillWriteOptions,
+  assets: SkillAsset[] = [],
+  termIndex: TermIndexEntry[] = []
+): SkillWriteResult {
+  const previous = options.update ? readManifest(options.outDir) : undefined;
+  if (!previous) {
+    assertOutputWritable(options.outDir, options.overwrite);
+  }
+
+  const { files, entryFile } = renderSkillFiles(metadata, chapters, options, assets, termIndex);
+  const result: SkillWriteResult = {
     outDir: options.outDir,
-    skillFilePath
+    skillFilePath: path.join(options.outDir, entryFile),
+    files: [...files.keys()]
   };
+
+  if (previous) {
+    return { ...result, ...updateSkillInPlace(options.outDir, files, previous) };
+  }
+  return { ...result, backupDir: writeStagedSkill(options.outDir, files, Boolean(options.keepBackup)) };
 }
 
 export function createChapterFileName(chapterPrefix: string, chapter: Chapter): string {
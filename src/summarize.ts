@@ -0,0 +1,120 @@
+import { tokenize } from "./search-index";
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 1e-6;
+// Sentences considered per chapter; ranking is quadratic in this number.
+const MAX_CANDIDATES = 300;
+const MIN_SENTENCE_TOKENS = 4;
+const MAX_SENTENCE_WORDS = 60;
+
+type Sentence = {
+  text: string;
+  tokens: Set<string>;
+  tokenCount: number;
+};
+
+/** Reduce chapter markdown to its prose: no code, tables, headings, footnote definitions or markup. */
+function proseParagraphs(markdown: string): string[] {
+  return markdown
+    .replace(/^\s*(`{3,}|~{3,})[\s\S]*?^\s*\1.*$/gm, "")
+    .split(/\n{2,}/)
+    .filter((block) => !/^\s*(#{1,6}\s|\||\[\^[^\]]+\]:)/.test(block))
+    .map((block) =>
+      block
+        .replace(/!\[[^\]]*]\([^)]*\)/g, "")
+        .replace(/\[\^[^\]]+\]/g, "")
+        .replace(/\[([^\]]*)]\([^)]*\)/g, "$1")
+        .replace(/<[^>]+>/g, "")
+        .replace(/^\s*(?:[-*+>]|\d+[.)])\s+/gm, "")
+        .replace(/[*_`]/g, "")
+        .replace(/\s+/g, " ")
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+function splitSentences(paragraph: string): string[] {
+  return paragraph
+    .split(/(?<=[.!?])\s+|(?<=[。！？])/u)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function similarity(first: Sentence, second: Sentence): number {
+  let overlap = 0;
+  for (const token of first.tokens) {
+    if (second.tokens.has(token)) {
+      overlap += 1;
+    }
+  }
+  return overlap === 0 ? 0 : overlap / (Math.log(1 + first.tokenCount) + Math.log(1 + second.tokenCount));
+}
+
+/** PageRank over the sentence similarity graph, with a fixed iteration limit. */
+function rankSentences(sentences: Sentence[]): number[] {
+  const weights = sentences.map((sentence, row) =>
+    sentences.map((other, column) => (row === column ? 0 : similarity(sentence, other)))
+  );
+  const outgoing = weights.map((row) => row.reduce((sum, weight) => sum + weight, 0));
+  let scores = sentences.map(() => 1);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration += 1) {
+    const next = scores.map((_score, target) => {
+      let incoming = 0;
+      for (let source = 0; source < sentences.length; source += 1) {
+        if (outgoing[source] > 0) {
+          incoming += (weights[source][target] / outgoing[source]) * scores[source];
+        }
+      }
+      return 1 - DAMPING + DAMPING * incoming;
+    });
+    const change = next.reduce((sum, score, position) => sum + Math.abs(score - scores[position]), 0);
+    scores = next;
+    if (change < CONVERGENCE) {
+      break;
+    }
+  }
+
+  return scores;
+}
+
+function summaryLength(wordCount: number): number {
+  if (wordCount < 400) {
+    return 1;
+  }
+  return wordCount < 2500 ? 2 : 3;
+}
+
+/**
+ * Extractive, TextRank-style gist of a chapter: the 1-3 most central sentences (more for
+ * longer chapters), in their original order. No model is involved and ties go to the
+ * earlier sentence, so the same chapter always gets the same summary.
+ */
+export function summarizeChapter(markdown: string, wordCount: number): string {
+  const sentences = proseParagraphs(markdown)
+    .flatMap(splitSentences)
+    .map((text) => {
+      const tokens = tokenize(text);
+      return { text, tokens: new Set(tokens), tokenCount: tokens.length };
+    })
+    .filter(
+      (sentence) =>
+        sentence.tokenCount >= MIN_SENTENCE_TOKENS && sentence.text.split(/\s+/).length <= MAX_SENTENCE_WORDS
+    )
+    .slice(0, MAX_CANDIDATES);
+
+  const count = summaryLength(wordCount);
+  if (sentences.length <= count) {
+    return sentences.map((sentence) => sentence.text).join(" ");
+  }
+
+  const scores = rankSentences(sentences);
+  return sentences
+    .map((sentence, position) => ({ sentence, position, score: scores[position] }))
+    .sort((first, second) => second.score - first.score || first.position - second.position)
+    .slice(0, count)
+    .sort((first, second) => first.position - second.position)
+    .map(({ sentence }) => sentence.text)
+    .join(" ");
+}
@@ -0,0 +1,191 @@
+import { CliError } from "./types";
+
+export type TemplateContext = Record<string, unknown>;
+
+type BlockKind = "each" | "if" | "unless";
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "value"; path: string }
+  | { type: "block"; kind: BlockKind; path: string; body: TemplateNode[]; inverse: TemplateNode[] };
+
+export type Template = {
+  name: string;
+  nodes: TemplateNode[];
+};
+
+type Tag = {
+  start: number;
+  end: number;
+  body: string;
+};
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(?:this|@index|@first|@last|[A-Za-z_][\w]*(?:\.[A-Za-z_][\w]*)*)$/;
+const BLOCK_KINDS: BlockKind[] = ["each", "if", "unless"];
+
+function lineNumber(source: string, offset: number): number {
+  return source.slice(0, offset).split("\n").length;
+}
+
+/**
+ * Block, else and comment tags that sit alone on their line take the whole line with
+ * them, so a loop over chapters does not leave a blank line per iteration.
+ */
+function standaloneBounds(source: string, tag: Tag): { start: number; end: number } {
+  const lineStart = source.lastIndexOf("\n", tag.start - 1) + 1;
+  const lineEnd = source.indexOf("\n", tag.end);
+  const before = source.slice(lineStart, tag.start);
+  const after = source.slice(tag.end, lineEnd === -1 ? source.length : lineEnd);
+  if (before.trim() || after.trim()) {
+    return { start: tag.start, end: tag.end };
+  }
+  return { start: lineStart, end: lineEnd === -1 ? source.length : lineEnd + 1 };
+}
+
+function templateError(template: string, source: string, offset: number, message: string): CliError {
+  return new CliError(`Template ${template}, line ${lineNumber(source, offset)}: ${message}`, 2);
+}
+
+/**
+ * Parse a template: `{{path}}` values, `{{#each path}}`, `{{#if path}}` and
+ * `{{#unless path}}` blocks with an optional `{{else}}`, and `{{! comments }}`.
+ * Syntax errors are CliErrors naming the template and line.
+ */
+export function parseTemplate(source: string, name: string): Template {
+  type OpenBlock = { kind: BlockKind; path: string; offset: number; body: TemplateNode[]; inverse?: TemplateNode[] };
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const current = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    return open ? (open.inverse ?? open.body) : root;
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const tag: Tag = { start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, body: match[1] };
+    const isControl = /^[#/!]|^else$/.test(tag.body);
+    const bounds = isControl ? standaloneBounds(source, tag) : tag;
+    if (bounds.start > cursor) {
+      current().push({ type: "text", value: source.slice(cursor, bounds.start) });
+    }
+    cursor = Math.max(cursor, bounds.end);
+
+    if (tag.body.startsWith("!")) {
+      continue;
+    }
+    if (tag.body === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.inverse) {
+        throw templateError(name, source, tag.start, "{{else}} outside of a block");
+      }
+      open.inverse = [];
+      continue;
+    }
+
+    const opening = /^#(\w+)\s+(\S+)$/.exec(tag.body);
+    if (opening) {
+      const kind = opening[1] as BlockKind;
+      if (!BLOCK_KINDS.includes(kind)) {
+        throw templateError(name, source, tag.start, `unknown block {{#${opening[1]}}}`);
+      }
+      if (!PATH_PATTERN.test(opening[2])) {
+        throw templateError(name, source, tag.start, `invalid name "${opening[2]}"`);
+      }
+      stack.push({ kind, path: opening[2], offset: tag.start, body: [] });
+      continue;
+    }
+
+    const closing = /^\/(\w+)$/.exec(tag.body);
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.kind !== closing[1]) {
+        throw templateError(name, source, tag.start, `unexpected {{/${closing[1]}}}`);
+      }
+      current().push({ type: "block", kind: open.kind, path: open.path, body: open.body, inverse: open.inverse ?? [] });
+      continue;
+    }
+
+    if (!PATH_PATTERN.test(tag.body)) {
+      throw templateError(name, source, tag.start, `invalid tag {{${tag.body}}}`);
+    }
+    current().push({ type: "value", path: tag.body });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw templateError(name, source, unclosed.offset, `unclosed {{#${unclosed.kind} ${unclosed.path}}}`);
+  }
+  if (cursor < source.length) {
+    root.push({ type: "text", value: source.slice(cursor) });
+  }
+  return { name, nodes: root };
+}
+
+/**
+ * Resolve a dotted path against the innermost scope that defines its first segment.
+ * Only own properties count, so names like "constructor" never reach Object.prototype.
+ */
+function lookup(scopes: TemplateContext[], dottedPath: string): unknown {
+  const [head, ...rest] = dottedPath.split(".");
+  for (let depth = scopes.length - 1; depth >= 0; depth -= 1) {
+    const scope = scopes[depth];
+    if (!Object.hasOwn(scope, head)) {
+      continue;
+    }
+    let value: unknown = scope[head];
+    for (const key of rest) {
+      value =
+        value && typeof value === "object" && Object.hasOwn(value, key)
+          ? (value as Record<string, unknown>)[key]
+          : undefined;
+    }
+    return value;
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null || value === false) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(stringify).join(", ");
+  }
+  return typeof value === "object" ? "" : String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  let output = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      output += node.value;
+    } else if (node.type === "value") {
+      output += stringify(lookup(scopes, node.path));
+    } else if (node.kind === "each") {
+      const value = lookup(scopes, node.path);
+      const items = Array.isArray(value) ? value : [];
+      if (items.length === 0) {
+        output += renderNodes(node.inverse, scopes);
+      }
+      items.forEach((item, index) => {
+        const fields = item && typeof item === "object" && !Array.isArray(item) ? (item as TemplateContext) : {};
+        const scope = { ...fields, this: item, "@index": index, "@first": index === 0, "@last": index === items.length - 1 };
+        output += renderNodes(node.body, [...scopes, scope]);
+      });
+    } else {
+      const truthy = isTruthy(lookup(scopes, node.path));
+      output += renderNodes(truthy === (node.kind === "if") ? node.body : node.inverse, scopes);
+    }
+  }
+  return output;
+}
+
+/** Render a parsed template. Missing values render empty; lists render comma-separated. */
+export function renderTemplate(template: Template, context: TemplateContext): string {
+  return renderNodes(template.nodes, [context]);
+}
@@ -0,0 +1,194 @@
+import { HTMLElement, parse as parseHtml } from "node-html-parser";
+import { resolveHref, type ChapterLocation } from "./internal-links";
+import type { Chapter, TermIndexEntry } from "./types";
+
+export const TERM_INDEX_MARKDOWN_PATH = "references/term-index.md";
+export const TERM_INDEX_JSON_PATH = "references/term-index.json";
+
+const INDEX_TITLE = /^(?:(?:general|subject|name|author)\s+)?index$/i;
+const INDEX_TYPE_ATTRIBUTE = /\b(?:epub:type|role)\s*=\s*["'][^"']*\b(?:doc-)?index\b/i;
+const LIST_TAGS = new Set(["UL", "OL", "DL"]);
+const ENTRY_TAGS = new Set(["LI", "P", "DT", "DD"]);
+const BLOCK_CHILD_TAGS = new Set(["UL", "OL", "DL", "LI", "P", "DIV", "DT", "DD", "SECTION"]);
+
+// A raw index entry: its parent terms, the term itself and the resolved link keys it cites.
+export type IndexEntry = {
+  term: string;
+  parents: string[];
+  targets: string[];
+};
+
+/** True for a spine segment that is the book's index, by EPUB semantics or by title. */
+export function isIndexSection(html: string, title: string): boolean {
+  return INDEX_TYPE_ATTRIBUTE.test(html) || INDEX_TITLE.test(title.trim());
+}
+
+// Sub-entries printed as flat paragraphs usually carry their level in the class name.
+function classLevel(element: HTMLElement): number {
+  const classes = (element.getAttribute("class") || "").toLowerCase();
+  const numbered = classes.match(/(?:index|idx|ix|level|entry)[-_]?(\d)\b/);
+  if (numbered) {
+    return Math.max(0, Number(numbered[1]) - 1);
+  }
+  return /\bsub/.test(classes) ? 1 : 0;
+}
+
+function entryBlocks(root: HTMLElement): { element: HTMLElement; level: number }[] {
+  const blocks: { element: HTMLElement; level: number }[] = [];
+
+  const visit = (element: HTMLElement, listDepth: number): void => {
+    for (const child of element.childNodes) {
+      if (!(child instanceof HTMLElement)) {
+        continue;
+      }
+      if (LIST_TAGS.has(child.tagName)) {
+        visit(child, child.tagName === "DL" ? listDepth : listDepth + 1);
+        continue;
+      }
+      const isLeafDiv =
+        child.tagName === "DIV" &&
+        !child.childNodes.some((node) => node instanceof HTMLElement && BLOCK_CHILD_TAGS.has(node.tagName));
+      if (ENTRY_TAGS.has(child.tagName) || isLeafDiv) {
+        blocks.push({ element: child, level: Math.max(0, listDepth - 1) + classLevel(child) });
+        // Nested lists inside a list item hold its sub-entries.
+        for (const nested of child.childNodes) {
+          if (nested instanceof HTMLElement && LIST_TAGS.has(nested.tagName)) {
+            visit(nested, listDepth + 1);
+          }
+        }
+        continue;
+      }
+      visit(child, listDepth);
+    }
+  };
+
+  visit(root, 0);
+  return blocks;
+}
+
+function entryTerm(content: HTMLElement): string {
+  return content.text
+    .replace(/\s+/g, " ")
+    .replace(/\b(?:see also|see)\b.*$/i, "")
+    .replace(/(?:[,;]\s*\d+(?:\s*[–—-]\s*\d+)?)+\s*$/, "")
+    .replace(/[\s,;:.–—-]+$/, "")
+    .trim();
+}
+
+/**
+ * Read the entries of an index section. Each entry's term is its text without page
+ * links or "see" references; its targets are the resolved keys of the links it holds.
+ * Entries keep the terms they are nested under, from list nesting or numbered classes.
+ */
+export function extractIndexEntries(html: string, documentPath: string): IndexEntry[] {
+  const entries: IndexEntry[] = [];
+  const path: string[] = [];
+
+  for (const { element, level } of entryBlocks(parseHtml(html))) {
+    const content = parseHtml(element.innerHTML);
+    for (const nested of content.querySelectorAll("ul, ol, dl")) {
+      nested.remove();
+    }
+
+    const targets: string[] = [];
+    for (const anchor of content.querySelectorAll("a")) {
+      const key = resolveHref(documentPath, anchor.getAttribute("href") || "");
+      // Links back into the index itself are letter navigation or cross-references.
+      if (key && key.split("#")[0] !== documentPath && !targets.includes(key)) {
+        targets.push(key);
+      }
+      anchor.remove();
+    }
+
+    const term = entryTerm(content);
+    if (!term) {
+      continue;
+    }
+    path.splice(level);
+    entries.push({ term, parents: [...path], targets });
+    path.push(term);
+  }
+
+  return entries;
+}
+
+/**
+ * Map index entries onto the output chapters. Entries citing the same term are merged,
+ * each chapter is listed once per term, and terms with no chapter in the output are dropped.
+ */
+export function resolveTermIndex(
+  entries: IndexEntry[],
+  locate: (key: string) => ChapterLocation | undefined
+): TermIndexEntry[] {
+  const byPath = new Map<string, TermIndexEntry>();
+
+  for (const entry of entries) {
+    const locations = entry.targets
+      .map((key) => locate(key))
+      .filter((location): location is ChapterLocation => Boolean(location));
+    if (locations.length === 0) {
+      continue;
+    }
+
+    const key = [...entry.parents, entry.term].join("\n");
+    const resolved = byPath.get(key) || { term: entry.term, parents: entry.parents, chapters: [] };
+    for (const location of locations) {
+      if (!resolved.chapters.some((chapter) => chapter.index === location.index)) {
+        resolved.chapters.push(location.anchor ? { index: location.index, anchor: location.anchor } : { index: location.index });
+      }
+    }
+    byPath.set(key, resolved);
+  }
+
+  return [...byPath.values()];
+}
+
+/**
+ * Render references/term-index.md (links relative to references/) and its JSON twin.
+ * Parent terms without chapters of their own are listed once so sub-entries can nest.
+ */
+export function renderTermIndex(
+  termIndex: TermIndexEntry[],
+  chapters: Chapter[],
+  fileNameForIndex: (index: number) => string | undefined
+): { markdown: string; json: string } {
+  const titles = new Map(chapters.map((chapter) => [chapter.index, chapter.title]));
+  const link = ({ index, anchor }: TermIndexEntry["chapters"][number]): string =>
+    `[${titles.get(index) || `Chapter ${index}`}](${fileNameForIndex(index)}${anchor ? `#${anchor}` : ""})`;
+
+  const lines: string[] = [];
+  let previousPath: string[] = [];
+  for (const entry of termIndex) {
+    entry.parents.forEach((parent, depth) => {
+      if (previousPath[depth] !== parent) {
+        lines.push(`${"  ".repeat(depth)}- **${parent}**`);
+        previousPath = [...entry.parents.slice(0, depth + 1)];
+      }
+    });
+    lines.push(`${"  ".repeat(entry.parents.length)}- **${entry.term}**: ${entry.chapters.map(link).join(", ")}`);
+    previousPath = [...entry.parents, entry.term];
+  }
+
+  const markdown = [
+    "# Term Index",
+    "",
+    "Terms from the book's index, linked to the chapters that discuss them.",
+    "",
+    ...lines
+  ].join("\n");
+
+  const json = {
+    terms: termIndex.map((entry) => ({
+      term: entry.term,
+      parents: entry.parents,
+      chapters: entry.chapters.map(({ index, anchor }) => ({
+        index,
+        title: titles.get(index) || "",
+        file: `references/${fileNameForIndex(index)}`,
+        ...(anchor ? { anchor } : {})
+      }))
+    }))
+  };
+
+  return { markdown: `${markdown}\n`, json: `${JSON.stringify(json, null, 2)}\n` };
+}
@@ -0,0 +1,43 @@
+import process from "node:process";
+import { createInterface } from "node:readline/promises";
+import type { ConfirmHandler, ProgressHandler } from "./types";
+
+/**
+ * Print progress events for the CLI. Status lines and tool stdout go to `output`;
+ * warnings and tool stderr always go to stderr.
+ */
+export function createTerminalProgress(output: NodeJS.WriteStream = process.stdout): ProgressHandler {
+  return (event) => {
+    switch (event.type) {
+      case "status":
+      case "detail":
+        output.write(`${event.message}\n`);
+        return;
+      case "warning":
+        process.stderr.write(`⚠️  Warning: ${event.message}\n`);
+        return;
+      case "output":
+        (event.stream === "stdout" ? output : process.stderr).write(event.text);
+        return;
+    }
+  };
+}
+
+/**
+ * Ask yes/no questions on the terminal. Returns undefined when stdin or `output`
+ * is not a TTY, so library code fails instead of waiting for an answer.
+ */
+export function createTerminalConfirm(output: NodeJS.WriteStream = process.stdout): ConfirmHandler | undefined {
+  if (!process.stdin.isTTY || !output.isTTY) {
+    return undefined;
+  }
+
+  return async (request) => {
+    const rl = createInterface({ input: process.stdin, output });
+    const answer = await rl.question(`${request.message} ${request.defaultAnswer ? "[Y/n]" : "[y/N]"} `);
+    rl.close();
+
+    const normalized = answer.trim().toLowerCase();
+    return request.defaultAnswer ? !normalized.startsWith("n") : normalized.startsWith("y");
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Render rows as a plain-text table with space-padded columns.
+ * The last column is left unpadded so long values do not add trailing whitespace.
+ */
+export function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => (row[column] || "").length)));
+  const formatRow = (row: string[]): string =>
+    row
+      .map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column])))
+      .join("  ")
+      .trimEnd();
+
+  return [formatRow(header), formatRow(widths.map((width) => "-".repeat(width))), ...rows.map(formatRow)].join("\n");
+}
@@ -0,0 +1,21 @@
+const TOKEN_PIECE =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{M}\p{N}_]+|[^\s\p{L}\p{M}\p{N}_]/gu;
+const CJK_CHARACTER = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]$/u;
+
+/**
+ * Offline estimate of how many LLM tokens a text costs. Words count one token per
+ * eight characters (at least one), since BPE vocabularies hold most common words
+ * whole. CJK characters and punctuation or symbols count one token each, which keeps
+ * code and CJK text from being undercounted like words are.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECE)) {
+    if (CJK_CHARACTER.test(piece) || !/[\p{L}\p{N}_]/u.test(piece)) {
+      tokens += 1;
+    } else {
+      tokens += Math.ceil(piece.length / 8);
+    }
+  }
+  return tokens;
+}
@@ -1,11 +1,34 @@
 export type ExitCode = 0 | 2 | 3 | 4 | 5;
 
+export type NormalizeMode = "auto" | "always" | "never";
+
+export type BookIdentifier = {
+  value: string;
+  // For example ISBN, UUID, DOI or calibre, when the OPF names one.
+  scheme?: string;
+};
+
+export type BookContributor = {
+  name: string;
+  // MARC relator code such as aut, edt, trl or ill.
+  role?: string;
+  fileAs?: string;
+};
+
 export type BookMetadata = {
   title?: string;
   authors: string[];
   language?: string;
   publisher?: string;
   tags: string[];
+  identifiers?: BookIdentifier[];
+  isbn?: string;
+  date?: string;
+  description?: string;
+  creators?: BookContributor[];
+  contributors?: BookContributor[];
+  series?: string;
+  seriesIndex?: number;
 };
 
 export type Chapter = {
@@ -15,6 +38,79 @@ export type Chapter = {
   sourceFile: string;
   markdown: string;
   wordCount: number;
+  depth?: number;
+  parent?: string;
+  // Document-order positions of this chapter's TOC entry and of its parent entry.
+  // They tell apart TOC entries that share a title, such as repeated "Exercises".
+  tocId?: number;
+  parentTocId?: number;
+};
+
+export type SkillAsset = {
+  fileName: string;
+  sourcePath: string;
+  data: Buffer;
+};
+
+export type ChunkUnit = "words" | "tokens";
+
+// Size and overlap of references/chunks.jsonl chunks, in `unit`s.
+export type ChunkOptions = {
+  size: number;
+  overlap: number;
+  unit: ChunkUnit;
+};
+
+// One term from the book's index, with the output chapters (and heading anchors) it points to.
+export type TermIndexEntry = {
+  term: string;
+  parents: string[];
+  chapters: { index: number; anchor?: string }[];
+};
+
+/** A boilerplate rule from a --rules file. Patterns are case-insensitive regular expressions. */
+export type BoilerplateRuleConfig = {
+  id: string;
+  kind: "hard" | "soft";
+  description?: string;
+  title?: string;
+  content?: string;
+  maxWords?: number;
+};
+
+export type ExcludedChapter = {
+  title: string;
+  sourceFile: string;
+  wordCount: number;
+  ruleId: string;
+  reason: string;
+  // Only set when parsing with keepExcluded, for writing references/_excluded/.
+  markdown?: string;
+};
+
+export type ProgressEvent =
+  | { type: "status"; message: string }
+  | { type: "detail"; message: string }
+  | { type: "warning"; message: string }
+  | { type: "output"; source: "calibre" | "brew"; stream: "stdout" | "stderr"; text: string };
+
+export type ProgressHandler = (event: ProgressEvent) => void;
+
+export type ConfirmRequest = {
+  id: "install-calibre" | "overwrite-non-skill-dir";
+  message: string;
+  defaultAnswer: boolean;
+};
+
+export type ConfirmHandler = (request: ConfirmRequest) => Promise<boolean>;
+
+export type OutputFormat = "skill" | "llms-txt" | "agents-md" | "cursor";
+
+/** Custom template sources; any left out use the built-in layout. */
+export type SkillTemplates = {
+  skill?: string;
+  chapter?: string;
+  fullBook?: string;
 };
 
 export type SkillWriteOptions = {
@@ -24,6 +120,26 @@ export type SkillWriteOptions = {
   chapterPrefix: string;
   includeFullBook: boolean;
   overwrite: boolean;
+  keepBackup?: boolean;
+  update?: boolean;
+  searchIndex?: boolean;
+  chunks?: ChunkOptions;
+  summaries?: boolean;
+  keywords?: boolean;
+  templates?: SkillTemplates;
+  formats?: OutputFormat[];
+  excluded?: ExcludedChapter[];
+  source?: { file: string; sha256: string };
+  recordedOptions?: Record<string, unknown>;
+};
+
+export type SkillWriteResult = {
+  outDir: string;
+  skillFilePath: string;
+  files: string[];
+  backupDir?: string;
+  changed?: string[];
+  removed?: string[];
 };
 
 export class CliError extends Error {
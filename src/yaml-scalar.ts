@@ -0,0 +1,20 @@
+import { parseDocument } from "yaml";
+
+/** A double-quoted YAML scalar; JSON strings are valid YAML. */
+export function yamlScalar(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * A plain YAML scalar when that parses back to the same string, else a quoted one.
+ * Keeps ordinary names readable while titles with ": " or a leading quote stay valid.
+ * Both YAML 1.2 and 1.1 must agree, so values like `yes`, `0x1F`, `.inf` or `~`,
+ * which one of them reads as a boolean, number or null, are quoted.
+ */
+export function yamlPlainOrQuoted(value: string): string {
+  const isPlainSafe = (["1.2", "1.1"] as const).every((version) => {
+    const document = parseDocument(value, { version });
+    return document.errors.length === 0 && document.warnings.length === 0 && document.toJS() === value;
+  });
+  return isPlainSafe ? value : yamlScalar(value);
+}
@@ -1,6 +1,6 @@
 ---
-name: {{name}}
-description: {{description}}
+name: {{name_yaml}}
+description: {{description_yaml}}
 ---
 
 # {{name}}
@@ -20,10 +20,30 @@ Use it for factual retrieval and chapter-specific lookup.
 
 - Title: {{book_title}}
 - Authors: {{book_authors}}
+{{#if book_contributors}}
+- Contributors: {{book_contributors}}
+{{/if}}
+{{#if book_series}}
+- Series: {{book_series}}
+{{/if}}
 - Language: {{book_language}}
 - Publisher: {{book_publisher}}
+{{#if book.date}}
+- Published: {{book.date}}
+{{/if}}
+{{#if book_identifiers}}
+- Identifiers: {{book_identifiers}}
+{{/if}}
 - Tags: {{book_tags}}
 
+{{#if book.description}}
+## About the Book
+
+{{book.description}}
+{{/if}}
+
+{{term_index}}
+
 ## Chapter Index
 
 {{chapter_index}}
@@ -0,0 +1,82 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { convertBook, parseBook, writeSkill, type ProgressEvent } from "../src/api";
+import pkg from "../package.json";
+import { createEpub } from "./helpers/epub-fixture";
+
+const SAMPLE_CHAPTERS = [
+  { id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Chapter One</h1><p>First body.</p></body></html>` },
+  { id: "ch2", href: "ch2.xhtml", html: `<!doctype html><html><body><h1>Chapter Two</h1><p>Second body.</p></body></html>` }
+];
+
+describe("api", () => {
+  test("parses and writes a skill in separate steps", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-api-parse-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const outDir = path.join(tmp, "sample-skill");
+
+    try {
+      createEpub(epubPath, { chapters: SAMPLE_CHAPTERS });
+
+      const book = await parseBook(epubPath, { normalize: "never" });
+      assert.deepEqual(
+        book.chapters.map((chapter) => chapter.title),
+        ["Chapter One", "Chapter Two"]
+      );
+
+      const written = writeSkill(book.metadata, book.chapters, {
+        outDir,
+        skillName: "sample-skill",
+        description: "Sample",
+        chapterPrefix: "chapter-",
+        includeFullBook: false,
+        overwrite: false
+      });
+      assert.ok(written.files.includes("SKILL.md"));
+      assert.ok(fs.existsSync(path.join(outDir, "references", "chapter-002-chapter-two.md")));
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("reports progress through onProgress without writing to stdio", async (t) => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-api-convert-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const outDir = path.join(tmp, "sample-skill");
+    const events: ProgressEvent[] = [];
+    const stdout = t.mock.method(process.stdout, "write");
+    const stderr = t.mock.method(process.stderr, "write");
+
+    try {
+      createEpub(epubPath, { chapters: SAMPLE_CHAPTERS });
+
+      const result = await convertBook(epubPath, {
+        outDir,
+        normalize: "never",
+        onProgress: (event) => events.push(event)
+      });
+      stdout.mock.restore();
+      stderr.mock.restore();
+
+      assert.equal(result.chapters, 2);
+      assert.ok(result.files.includes("references/book_full.md"));
+      assert.deepEqual(
+        events.map((event) => event.type === "status" && event.message),
+        ["Starting conversion: sample.epub", "Parsing EPUB content...", "Parsed 2 chapter(s). Writing skill files...", "Skill files written."]
+      );
+      assert.equal(stdout.mock.callCount(), 0);
+      assert.equal(stderr.mock.callCount(), 0);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("publishes typed library entry points", () => {
+    assert.equal(pkg.exports["./api"].default, "./dist/src/api.js");
+    assert.equal(pkg.exports["./api"].types, "./dist/src/api.d.ts");
+    assert.equal(pkg.main, "dist/src/api.js");
+  });
+});
@@ -0,0 +1,107 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { loadBoilerplateRules } from "../src/config/boilerplate-rules";
+import { parseEpubToChapters } from "../src/parser";
+import { createEpub } from "./helpers/epub-fixture";
+
+function html(title: string, body: string): string {
+  return `<!doctype html><html><body><h1>${title}</h1><p>${body}</p></body></html>`;
+}
+
+function writeBook(tmp: string): string {
+  const epubPath = path.join(tmp, "sample.epub");
+  createEpub(epubPath, {
+    chapters: [
+      { id: "ch1", href: "ch1.xhtml", html: html("Table of Contents", "Intro.") },
+      { id: "ch2", href: "ch2.xhtml", html: html("Praise for the Book", "A delightful read, says a reviewer.") },
+      { id: "ch3", href: "ch3.xhtml", html: html("The Essay", "Main body text.") },
+      { id: "ch4", href: "ch4.xhtml", html: html("Reading Group Guide", "Questions for discussion.") },
+      { id: "ch5", href: "ch5.xhtml", html: html("Afterword", "Closing thoughts on the essay.") }
+    ]
+  });
+  return epubPath;
+}
+
+function titles(result: ReturnType<typeof parseEpubToChapters>): string[] {
+  return result.chapters.map((chapter) => chapter.title);
+}
+
+describe("boilerplate rules", () => {
+  test("loads and validates a rules file", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-rules-"));
+    const rulesPath = path.join(tmp, "rules.json");
+    const write = (value: unknown) => fs.writeFileSync(rulesPath, JSON.stringify(value));
+
+    write({ rules: [{ id: "praise", kind: "soft", title: "^praise for", maxWords: 300 }] });
+    assert.deepEqual(loadBoilerplateRules(rulesPath), [{ id: "praise", kind: "soft", title: "^praise for", maxWords: 300 }]);
+
+    write({ rules: [{ id: "praise", kind: "sometimes", title: "x" }] });
+    assert.throws(() => loadBoilerplateRules(rulesPath), /rule 1 in .*"kind" must be "hard" or "soft"/);
+    write({ rules: [{ id: "praise", kind: "hard" }] });
+    assert.throws(() => loadBoilerplateRules(rulesPath), /give a "title" or "content" pattern/);
+    write({ rules: [{ id: "praise", kind: "hard", title: "(" }] });
+    assert.throws(() => loadBoilerplateRules(rulesPath), /"title" is not a valid regular expression/);
+    write({ rules: [{ id: "praise", kind: "hard", title: "x", pattern: "y" }] });
+    assert.throws(() => loadBoilerplateRules(rulesPath), /Unknown keys in rule 1 .*: pattern/);
+    write([]);
+    assert.throws(() => loadBoilerplateRules(rulesPath), /expected a JSON object with a "rules" array/);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("applies user rules alongside built-in rules, even with filtering off", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-rules-parse-"));
+    const epubPath = writeBook(tmp);
+    const rules = [
+      { id: "praise", kind: "soft" as const, title: "^praise for", maxWords: 50 },
+      { id: "reading-guide", kind: "hard" as const, content: "questions for discussion" }
+    ];
+
+    const result = parseEpubToChapters(epubPath, { rules });
+    assert.deepEqual(titles(result), ["The Essay", "Afterword"]);
+    assert.deepEqual(
+      result.excluded.map((entry) => entry.ruleId),
+      ["title-front-matter", "praise", "reading-guide"]
+    );
+    assert.match(result.excluded[1]?.reason || "", /user rule praise; matched by title/);
+
+    const unfiltered = parseEpubToChapters(epubPath, { rules, filterBoilerplate: false });
+    assert.deepEqual(titles(unfiltered), ["Table of Contents", "The Essay", "Afterword"]);
+
+    const strictLimit = parseEpubToChapters(epubPath, { rules: [{ ...rules[0], maxWords: 3 }] });
+    assert.ok(titles(strictLimit).includes("Praise for the Book"));
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("includes and excludes chapters by index range or title pattern", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-rules-filters-"));
+    const epubPath = writeBook(tmp);
+
+    const included = parseEpubToChapters(epubPath, { includeChapters: ["contents"] });
+    assert.deepEqual(titles(included), ["Table of Contents", "Praise for the Book", "The Essay", "Reading Group Guide", "Afterword"]);
+
+    const excluded = parseEpubToChapters(epubPath, { excludeChapters: ["4-", "^praise"] });
+    assert.deepEqual(titles(excluded), ["The Essay"]);
+    assert.deepEqual(
+      excluded.excluded.map((entry) => `${entry.title}: ${entry.ruleId}`),
+      [
+        "Table of Contents: title-front-matter",
+        "Praise for the Book: exclude-chapter",
+        "Reading Group Guide: exclude-chapter",
+        "Afterword: exclude-chapter"
+      ]
+    );
+    assert.equal(excluded.excluded[1]?.reason, 'matched --exclude-chapter "^praise"');
+
+    const both = parseEpubToChapters(epubPath, { includeChapters: ["1-2"], excludeChapters: ["2"] });
+    assert.deepEqual(titles(both), ["Table of Contents", "The Essay", "Reading Group Guide", "Afterword"]);
+
+    assert.throws(() => parseEpubToChapters(epubPath, { excludeChapters: ["[oops"] }), /Invalid --exclude-chapter pattern: \[oops/);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+});
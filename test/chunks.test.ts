@@ -0,0 +1,121 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { buildChunks } from "../src/chunks";
+import { validateChunkOptions } from "../src/commands/convert";
+import { writeSkill } from "../src/skill-writer";
+import { estimateTokens } from "../src/tokens";
+import type { Chapter } from "../src/types";
+
+function chapter(index: number, title: string, markdown: string): Chapter {
+  return { index, title, slug: title.toLowerCase(), sourceFile: `OEBPS/ch${index}.xhtml`, markdown, wordCount: 1 };
+}
+
+function words(count: number, word: string): string {
+  return Array.from({ length: count }, () => word).join(" ");
+}
+
+function chunk(chapters: Chapter[], size: number, overlap: number) {
+  return buildChunks(
+    chapters.map((entry) => ({ chapter: entry, file: `references/${entry.slug}.md`, markdown: entry.markdown })),
+    { size, overlap, unit: "words" }
+  );
+}
+
+describe("chunks", () => {
+  test("packs paragraphs up to the size and repeats whole trailing blocks as overlap", () => {
+    const markdown = ["# Title", words(4, "one"), words(4, "two"), words(4, "three")].join("\n\n");
+    const chunks = chunk([chapter(1, "Intro", markdown)], 9, 4);
+
+    assert.deepEqual(
+      chunks.map((entry) => entry.text),
+      [`${words(4, "one")}\n\n${words(4, "two")}`, `${words(4, "two")}\n\n${words(4, "three")}`]
+    );
+    assert.deepEqual(chunks[0].headingPath, ["Title"]);
+    assert.equal(chunks[0].words, 8);
+  });
+
+  test("never cuts code blocks or tables and never crosses headings", () => {
+    const code = "```js\nconst a = 1;\n\nconst b = 2;\n```";
+    const table = "| a | b |\n| - | - |\n| 1 | 2 |";
+    const markdown = ["# Guide", "## Setup", code, table, "## Usage", "Run it."].join("\n\n");
+    const chunks = chunk([chapter(1, "Guide", markdown)], 3, 0);
+
+    assert.deepEqual(
+      chunks.map((entry) => [entry.headingPath.join(" > "), entry.text]),
+      [
+        ["Guide > Setup", code],
+        ["Guide > Setup", table],
+        ["Guide > Usage", "Run it."]
+      ]
+    );
+  });
+
+  test("splits oversized paragraphs at word boundaries", () => {
+    const chunks = chunk([chapter(1, "Long", words(10, "word"))], 4, 0);
+    assert.deepEqual(
+      chunks.map((entry) => entry.words),
+      [4, 4, 2]
+    );
+  });
+
+  test("keeps chunk ids stable when other chapters change", () => {
+    const first = chapter(1, "One", "Same text.");
+    const before = chunk([first, chapter(2, "Two", "Old text.")], 50, 0);
+    const after = chunk([first, chapter(2, "Two", "New text.")], 50, 0);
+
+    assert.equal(before[0].id, after[0].id);
+    assert.notEqual(before[1].id, after[1].id);
+    assert.match(before[0].id, /^[0-9a-f]{16}$/);
+  });
+
+  test("estimates tokens for CJK text and code per character", () => {
+    assert.equal(estimateTokens("日本語"), 3);
+    assert.equal(estimateTokens("internationalization"), 3);
+    assert.equal(estimateTokens("a(b);"), 5);
+  });
+
+  test("estimates English prose by word length and punctuation", () => {
+    // 88 words, two of them longer than eight letters, and 12 punctuation marks.
+    const prose =
+      "It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of foolishness, " +
+      "it was the epoch of belief, it was the epoch of incredulity, it was the season of Light, it was the season of " +
+      "Darkness. There were a king with a large jaw and a queen with a plain face, on the throne of England; there were " +
+      "a king with a large jaw and a queen with a fair face, on the throne of France.";
+    assert.equal(estimateTokens(prose), 102);
+  });
+
+  test("writes chunks.jsonl lines with chapter, heading and size fields", () => {
+    const outDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-chunks-")), "skill");
+    writeSkill({ authors: [], tags: [] }, [chapter(1, "Intro", "# Intro\n\nHello there.")], {
+      outDir,
+      skillName: "skill",
+      description: "Skill",
+      chapterPrefix: "chapter-",
+      includeFullBook: false,
+      overwrite: false,
+      chunks: { size: 100, overlap: 10, unit: "tokens" }
+    });
+
+    const lines = fs.readFileSync(path.join(outDir, "references", "chunks.jsonl"), "utf8").trim().split("\n");
+    assert.equal(lines.length, 1);
+    assert.deepEqual(JSON.parse(lines[0]), {
+      id: JSON.parse(lines[0]).id,
+      chapterIndex: 1,
+      chapterTitle: "Intro",
+      headingPath: ["Intro"],
+      sourceFile: "OEBPS/ch1.xhtml",
+      file: "references/chapter-001-intro.md",
+      text: "Hello there.",
+      words: 2,
+      tokens: 3
+    });
+  });
+
+  test("rejects an overlap that is not smaller than the chunk size", () => {
+    assert.throws(() => validateChunkOptions({ chunkSize: 50, chunkOverlap: 50 }), /--chunk-overlap/);
+    assert.throws(() => validateChunkOptions({ chunkUnit: "pages" as never }), /--chunk-unit/);
+  });
+});
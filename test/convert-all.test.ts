@@ -0,0 +1,120 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { convertAll, expandBookInputs, formatBatchSummary } from "../src/commands/convert-all";
+import { createEpub } from "./helpers/epub-fixture";
+
+describe("convert-all", () => {
+  test("expands directories and glob patterns into book files", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-expand-"));
+
+    try {
+      fs.mkdirSync(path.join(tmp, "nested"));
+      fs.writeFileSync(path.join(tmp, "a.epub"), "a");
+      fs.writeFileSync(path.join(tmp, "b.pdf"), "b");
+      fs.writeFileSync(path.join(tmp, "notes.md"), "not a book");
+      fs.writeFileSync(path.join(tmp, "nested", "c.epub"), "c");
+
+      assert.deepEqual(expandBookInputs([tmp]), [path.join(tmp, "a.epub"), path.join(tmp, "b.pdf")]);
+      assert.deepEqual(expandBookInputs([path.join(tmp, "**/*.epub")]), [
+        path.join(tmp, "a.epub"),
+        path.join(tmp, "nested", "c.epub")
+      ]);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("keeps going past failed books and writes a report", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-all-"));
+    const booksDir = path.join(tmp, "books");
+    const reportPath = path.join(tmp, "report.json");
+
+    try {
+      fs.mkdirSync(booksDir);
+      createEpub(path.join(booksDir, "good.epub"), {
+        chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Chapter One</h1><p>Body text.</p></body></html>` }]
+      });
+      fs.writeFileSync(path.join(booksDir, "broken.epub"), "not a zip archive");
+
+      const summary = await convertAll([booksDir], {
+        outParentDir: path.join(tmp, "skills"),
+        includeFullBook: false,
+        chapterPrefix: "chapter-",
+        maxChapterWords: 15000,
+        filterBoilerplate: true,
+        stripImages: true,
+        stripInternalLinks: true,
+        normalize: "never",
+        concurrency: 2,
+        reportPath
+      });
+
+      assert.equal(summary.converted, 1);
+      assert.equal(summary.failed, 1);
+      assert.equal(summary.exitCode, 2);
+      assert.deepEqual(
+        summary.results.map((result) => [path.basename(result.input), result.status, result.chapters]),
+        [
+          ["broken.epub", "failed", 0],
+          ["good.epub", "converted", 1]
+        ]
+      );
+      const table = formatBatchSummary(summary, tmp);
+      assert.match(table, /converted +0 +1 +books\/good\.epub +/);
+      assert.match(table, /1 converted, 1 failed/);
+
+      const report = JSON.parse(fs.readFileSync(reportPath, "utf8"));
+      assert.equal(report.results.length, 2);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("fails books that resolve to an output directory already claimed in the batch", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-all-collide-"));
+    const booksDir = path.join(tmp, "books");
+    const messages: string[] = [];
+
+    try {
+      fs.mkdirSync(booksDir);
+      for (const name of ["first.epub", "second.epub"]) {
+        createEpub(path.join(booksDir, name), {
+          chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Chapter One</h1><p>Body text.</p></body></html>` }]
+        });
+      }
+
+      const summary = await convertAll([booksDir], {
+        outParentDir: path.join(tmp, "skills"),
+        includeFullBook: false,
+        chapterPrefix: "chapter-",
+        maxChapterWords: 15000,
+        filterBoilerplate: true,
+        stripImages: true,
+        stripInternalLinks: true,
+        normalize: "never",
+        concurrency: 2,
+        onProgress: (event) => {
+          if (event.type === "status") {
+            messages.push(event.message);
+          }
+        }
+      });
+
+      assert.deepEqual(
+        summary.results.map((result) => [path.basename(result.input), result.status, result.exitCode]),
+        [
+          ["first.epub", "converted", 0],
+          ["second.epub", "failed", 5]
+        ]
+      );
+      assert.match(summary.results[1].error || "", /also the target of .*first\.epub/);
+      assert.ok(messages.includes("[first.epub] Skill files written."));
+      assert.ok(!messages.includes("[second.epub] Skill files written."));
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+});
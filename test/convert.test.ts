@@ -0,0 +1,350 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { buildConvertReport, convertBook } from "../src/commands/convert";
+import { validateSkill } from "../src/commands/validate";
+import { CliError } from "../src/types";
+import { createEpub } from "./helpers/epub-fixture";
+
+const BASE_OPTIONS = {
+  includeFullBook: false,
+  chapterPrefix: "chapter-",
+  maxChapterWords: 15000,
+  filterBoilerplate: true,
+  stripImages: true,
+  stripInternalLinks: true
+};
+
+describe("convert", () => {
+  test("converts valid epubs without calibre when normalize is never", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-native-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const outDir = path.join(tmp, "sample-skill");
+
+    try {
+      createEpub(epubPath, {
+        chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Chapter One</h1><p>Body text.</p></body></html>` }]
+      });
+
+      const result = await convertBook(epubPath, { ...BASE_OPTIONS, outDir, normalize: "never" });
+      assert.equal(result.outDir, outDir);
+      assert.equal(result.chapters, 1);
+      assert.ok(fs.existsSync(path.join(outDir, "SKILL.md")));
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects invalid epubs when normalize is never", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-invalid-"));
+    const epubPath = path.join(tmp, "broken.epub");
+
+    try {
+      fs.writeFileSync(epubPath, "not a zip archive");
+      await assert.rejects(
+        convertBook(epubPath, { ...BASE_OPTIONS, outDir: path.join(tmp, "out"), normalize: "never" }),
+        (error: Error & { code?: number }) => error.code === 2 && /not a valid EPUB/.test(error.message)
+      );
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("reports written files, chapters and dropped sections for --json", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-json-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const outDir = path.join(tmp, "sample-skill");
+    const progress: string[] = [];
+
+    try {
+      createEpub(epubPath, {
+        chapters: [
+          { id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><p>Intro.</p></body></html>` },
+          { id: "ch2", href: "ch2.xhtml", html: `<!doctype html><html><body><p>Main body text.</p></body></html>` }
+        ],
+        ncxTitles: ["Contents", "The Essay"]
+      });
+
+      const result = await convertBook(epubPath, {
+        ...BASE_OPTIONS,
+        outDir,
+        normalize: "never",
+        onProgress: (event) => {
+          if (event.type === "status") {
+            progress.push(event.message);
+          }
+        }
+      });
+      const report = buildConvertReport(epubPath, { result });
+
+      assert.equal(report.status, "converted");
+      assert.equal(report.exitCode, 0);
+      assert.deepEqual(report.files, [
+        "references/chapter-001-the-essay.md",
+        "SKILL.md",
+        "references/_excluded.json",
+        "references/.injectbook-manifest.json"
+      ]);
+      assert.deepEqual(report.chapters, [
+        { index: 1, title: "The Essay", slug: "the-essay", wordCount: 3, file: "references/chapter-001-the-essay.md" }
+      ]);
+      assert.deepEqual(
+        report.dropped.map((chapter) => [chapter.title, chapter.ruleId]),
+        [["Contents", "title-front-matter"]]
+      );
+      assert.ok(progress.includes("Skill files written."));
+
+      const failure = buildConvertReport(epubPath, { error: new CliError("Output directory already exists", 5) });
+      assert.equal(failure.status, "failed");
+      assert.equal(failure.exitCode, 5);
+      assert.equal(failure.outDir, null);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("asks the injected confirm handler before overwriting a non-skill directory", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-confirm-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const outDir = path.join(tmp, "not-a-skill");
+    const warnings: string[] = [];
+
+    try {
+      createEpub(epubPath, {
+        chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><p>Body text.</p></body></html>` }]
+      });
+      fs.mkdirSync(outDir);
+      fs.writeFileSync(path.join(outDir, "notes.txt"), "keep me");
+
+      const options = {
+        ...BASE_OPTIONS,
+        outDir,
+        normalize: "never" as const,
+        overwrite: true,
+        onProgress: (event: { type: string; message?: string }) => {
+          if (event.type === "warning" && event.message) {
+            warnings.push(event.message);
+          }
+        }
+      };
+
+      await assert.rejects(convertBook(epubPath, options), /Cannot prompt for confirmation/);
+      assert.ok(warnings[0].includes(outDir));
+
+      await assert.rejects(convertBook(epubPath, { ...options, confirm: async () => false }), /Overwrite cancelled/);
+      assert.ok(fs.existsSync(path.join(outDir, "notes.txt")));
+
+      const questions: string[] = [];
+      await convertBook(epubPath, {
+        ...options,
+        confirm: async (request) => {
+          questions.push(request.id);
+          return true;
+        }
+      });
+      assert.deepEqual(questions, ["overwrite-non-skill-dir"]);
+      assert.ok(fs.existsSync(path.join(outDir, "SKILL.md")));
+      assert.ok(!fs.existsSync(path.join(outDir, "notes.txt")));
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("records a manifest and --update only touches changed files", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-update-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const outDir = path.join(tmp, "sample-skill");
+    const chapters = [
+      { id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>One</h1><p>First body.</p></body></html>` },
+      { id: "ch2", href: "ch2.xhtml", html: `<!doctype html><html><body><h1>Two</h1><p>Second body.</p></body></html>` }
+    ];
+
+    try {
+      createEpub(epubPath, { chapters });
+      await convertBook(epubPath, { ...BASE_OPTIONS, outDir, normalize: "never", chapterPrefix: "part-" });
+
+      const manifestPath = path.join(outDir, "references", ".injectbook-manifest.json");
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+      assert.equal(manifest.source.file, "sample.epub");
+      assert.match(manifest.source.sha256, /^[0-9a-f]{64}$/);
+      assert.equal(manifest.options.chapterPrefix, "part-");
+      assert.deepEqual(Object.keys(manifest.files), ["references/part-001-one.md", "references/part-002-two.md", "SKILL.md"]);
+
+      // Recorded options win over ones passed with --update that are not explicit.
+      const unchanged = await convertBook(epubPath, { ...BASE_OPTIONS, outDir, update: true, includeFullBook: true });
+      assert.deepEqual(unchanged.changed, []);
+      assert.deepEqual(unchanged.removed, []);
+      assert.ok(!fs.existsSync(path.join(outDir, "references", "book_full.md")));
+
+      createEpub(epubPath, { chapters: [chapters[0]] });
+      const updated = await convertBook(epubPath, { ...BASE_OPTIONS, outDir, update: true });
+      assert.deepEqual(updated.changed, ["SKILL.md", "references/.injectbook-manifest.json"]);
+      assert.deepEqual(updated.removed, ["references/part-002-two.md"]);
+      assert.ok(fs.existsSync(path.join(outDir, "references", "part-001-one.md")));
+      assert.ok(!fs.existsSync(path.join(outDir, "references", "part-002-two.md")));
+
+      await assert.rejects(
+        convertBook(epubPath, { ...BASE_OPTIONS, outDir: path.join(tmp, "missing"), update: true }),
+        /No injectbook manifest found/
+      );
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("--update keeps explicit options and finds recorded paths from any directory", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-update-explicit-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const outDir = path.join(tmp, "sample-skill");
+    const templatePath = path.join(tmp, "skill.md.tmpl");
+    const cwd = process.cwd();
+
+    try {
+      createEpub(epubPath, {
+        chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>One</h1><p>Body.</p></body></html>` }]
+      });
+      fs.writeFileSync(templatePath, "Custom {{name}}\n");
+      process.chdir(tmp);
+      await convertBook(epubPath, { ...BASE_OPTIONS, outDir, normalize: "never", template: "skill.md.tmpl" });
+      process.chdir(cwd);
+
+      const manifestPath = path.join(outDir, "references", ".injectbook-manifest.json");
+      assert.equal(JSON.parse(fs.readFileSync(manifestPath, "utf8")).options.template, path.join(fs.realpathSync(tmp), "skill.md.tmpl"));
+
+      const updated = await convertBook(epubPath, {
+        ...BASE_OPTIONS,
+        outDir,
+        update: true,
+        includeFullBook: true,
+        isExplicit: (key) => key === "includeFullBook"
+      });
+      assert.deepEqual(updated.changed, ["references/book_full.md", "references/.injectbook-manifest.json"]);
+      assert.match(fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8"), /^Custom /);
+      assert.equal(JSON.parse(fs.readFileSync(manifestPath, "utf8")).options.includeFullBook, true);
+    } finally {
+      process.chdir(cwd);
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("uses the book's blurb as the default description", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-blurb-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    try {
+      createEpub(epubPath, {
+        metadataXml: `<dc:title>Sample Book</dc:title><dc:creator>Test Author</dc:creator><dc:description>&lt;p&gt;How to build &lt;i&gt;reliable&lt;/i&gt; queues: a field guide.&lt;/p&gt;</dc:description>`,
+        chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Chapter One</h1><p>Body text.</p></body></html>` }]
+      });
+
+      const outDir = path.join(tmp, "blurb-skill");
+      await convertBook(epubPath, { ...BASE_OPTIONS, outDir, normalize: "never" });
+      assert.match(
+        fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8"),
+        /\ndescription: "How to build reliable queues: a field guide\."\n/
+      );
+
+      const overrideDir = path.join(tmp, "override-skill");
+      await convertBook(epubPath, { ...BASE_OPTIONS, outDir: overrideDir, normalize: "never", description: "Queues" });
+      assert.match(fs.readFileSync(path.join(overrideDir, "SKILL.md"), "utf8"), /\ndescription: Queues\n/);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("keeps dropped chapters for review and lists them with --verbose", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-excluded-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const outDir = path.join(tmp, "sample-skill");
+    const details: string[] = [];
+
+    try {
+      createEpub(epubPath, {
+        chapters: [
+          { id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><p>See <a href="ch2.xhtml">the essay</a>.</p></body></html>` },
+          { id: "ch2", href: "ch2.xhtml", html: `<!doctype html><html><body><p>Main body text.</p></body></html>` }
+        ],
+        ncxTitles: ["Contents", "The Essay"]
+      });
+
+      const result = await convertBook(epubPath, {
+        ...BASE_OPTIONS,
+        outDir,
+        normalize: "never",
+        rewriteInternalLinks: true,
+        keepExcluded: true,
+        verbose: true,
+        onProgress: (event) => {
+          if (event.type === "detail") {
+            details.push(event.message);
+          }
+        }
+      });
+
+      assert.ok(details.includes("Dropped 1 chapter(s)"));
+      assert.ok(details.some((line) => line.startsWith("  [title-front-matter] Contents (OEBPS/ch1.xhtml, 3 words): ")));
+      assert.deepEqual(Object.keys(result.excluded[0] ?? {}), ["title", "sourceFile", "wordCount", "ruleId", "reason"]);
+
+      const report = JSON.parse(fs.readFileSync(path.join(outDir, "references", "_excluded.json"), "utf8"));
+      assert.deepEqual(report.excluded[0], { ...result.excluded[0], file: "references/_excluded/001-contents.md" });
+      const kept = fs.readFileSync(path.join(outDir, "references", "_excluded", "001-contents.md"), "utf8");
+      assert.match(kept, /^---\ntitle: "Contents"\nsource_file: "OEBPS\/ch1.xhtml"\nword_count: 3\nexcluded_by: "title-front-matter"\n/);
+      assert.match(kept, /\n\nSee the essay\.\n$/);
+      assert.doesNotMatch(fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8"), /_excluded/);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("adds keywords only with --keywords", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-keywords-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    try {
+      createEpub(epubPath, {
+        chapters: [
+          { id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Queues</h1><p>Queues hold messages for consumers.</p></body></html>` },
+          { id: "ch2", href: "ch2.xhtml", html: `<!doctype html><html><body><h1>Caches</h1><p>Caches keep results in storage.</p></body></html>` }
+        ]
+      });
+
+      const plainDir = path.join(tmp, "plain-skill");
+      await convertBook(epubPath, { ...BASE_OPTIONS, outDir: plainDir, normalize: "never" });
+      const plain = fs.readFileSync(path.join(plainDir, "SKILL.md"), "utf8");
+      assert.doesNotMatch(plain, /keywords|covering/);
+
+      const keywordDir = path.join(tmp, "keyword-skill");
+      await convertBook(epubPath, { ...BASE_OPTIONS, outDir: keywordDir, normalize: "never", keywords: true });
+      const withKeywords = fs.readFileSync(path.join(keywordDir, "SKILL.md"), "utf8");
+      assert.match(withKeywords, /\ndescription: .*, covering /);
+      assert.match(withKeywords, /\[keywords: /);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("derives a skill name that passes validate for long titles", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-convert-long-title-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const title = "The Remarkably Long and Thoroughly Exhaustive Field Guide to Building Reliable Message Queues";
+
+    try {
+      createEpub(epubPath, {
+        metadataXml: `<dc:title>${title}</dc:title><dc:creator>Test Author</dc:creator>`,
+        chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Chapter One</h1><p>Body text.</p></body></html>` }]
+      });
+
+      const outDir = path.join(tmp, "long-skill");
+      await convertBook(epubPath, { ...BASE_OPTIONS, outDir, normalize: "never" });
+      assert.match(
+        fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8"),
+        /\nname: The Remarkably Long and Thoroughly Exhaustive Field… Skill\n/
+      );
+      assert.deepEqual(validateSkill(outDir, { maxWords: 15000 }).issues, []);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { appendFootnoteDefinitions, extractFootnoteDefinitions } from "../src/footnotes";
+
+describe("footnotes", () => {
+  test("moves definitions to the part that cites them", () => {
+    const { body, definitions } = extractFootnoteDefinitions(
+      [
+        "# Part A",
+        "",
+        "Cites one[^1].",
+        "",
+        "# Part B",
+        "",
+        "Cites two[^2].",
+        "",
+        "[^1]: First note.",
+        "",
+        "[^2]: Second note.",
+        "",
+        "    Second paragraph."
+      ].join("\n")
+    );
+
+    assert.equal(body, "# Part A\n\nCites one[^1].\n\n# Part B\n\nCites two[^2].");
+    assert.equal(
+      appendFootnoteDefinitions("# Part B\n\nCites two[^2].", definitions),
+      "# Part B\n\nCites two[^2].\n\n[^2]: Second note.\n\n    Second paragraph."
+    );
+    assert.equal(appendFootnoteDefinitions("# Part C", definitions), "# Part C");
+  });
+});
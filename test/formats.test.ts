@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { validateFormats } from "../src/commands/convert";
+import { writeSkill } from "../src/skill-writer";
+import type { Chapter, OutputFormat } from "../src/types";
+
+const CHAPTERS: Chapter[] = [
+  { index: 1, title: "Intro", slug: "intro", sourceFile: "ch1.xhtml", markdown: "# Intro\n\nHello there.", wordCount: 3 },
+  { index: 2, title: "Usage", slug: "usage", sourceFile: "ch2.xhtml", markdown: "# Usage\n\nRun it.", wordCount: 3 }
+];
+
+function write(formats: OutputFormat[], chapters = CHAPTERS, description = "Reference for the guide") {
+  const outDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-formats-")), "skill");
+  const result = writeSkill({ title: "Guide", authors: ["Ada"], publisher: "Acme", tags: [] }, chapters, {
+    outDir,
+    skillName: "Guide Skill",
+    description,
+    chapterPrefix: "chapter-",
+    includeFullBook: false,
+    overwrite: false,
+    formats
+  });
+  const read = (relativePath: string) => fs.readFileSync(path.join(outDir, relativePath), "utf8");
+  return { outDir, result, read };
+}
+
+describe("formats", () => {
+  test("writes llms.txt with a blockquote summary, chapter links and llms-full.txt", () => {
+    const { outDir, result, read } = write(["llms-txt"]);
+
+    assert.equal(fs.existsSync(path.join(outDir, "SKILL.md")), false);
+    assert.equal(result.skillFilePath, path.join(outDir, "llms.txt"));
+    const index = read("llms.txt");
+    assert.match(index, /^# Guide Skill\n\n> Reference for the guide\n/);
+    assert.match(index, /\n## Chapters\n\n- \[1\. Intro\]\(references\/chapter-001-intro\.md\)\n/);
+    assert.match(index, /\n## Optional\n\n- \[Full text\]\(llms-full\.txt\)/);
+    assert.match(read("llms-full.txt"), /\n## 2\. Usage\n\n# Usage\n\nRun it\.\n$/);
+    assert.match(read("references/chapter-001-intro.md"), /^---\ntitle: "Intro"/);
+  });
+
+  test("rebases chapter and image links in llms-full.txt onto references/", () => {
+    const chapters: Chapter[] = [
+      CHAPTERS[0],
+      {
+        ...CHAPTERS[1],
+        markdown:
+          "# Usage\n\nSee [the intro](injectbook-chapter:1#intro), ![diagram](assets/abc123.png), [a note](#notes) and [the site](https://example.com)."
+      }
+    ];
+    const { read } = write(["llms-txt"], chapters);
+
+    assert.match(
+      read("llms-full.txt"),
+      /See \[the intro\]\(references\/chapter-001-intro\.md#intro\), !\[diagram\]\(references\/assets\/abc123\.png\), \[a note\]\(#notes\) and \[the site\]\(https:\/\/example\.com\)\./
+    );
+    assert.match(read("references/chapter-002-usage.md"), /See \[the intro\]\(chapter-001-intro\.md#intro\), !\[diagram\]\(assets\/abc123\.png\)/);
+  });
+
+  test("quotes a Cursor rule description that is not a plain YAML value", () => {
+    const { read } = write(["cursor"], CHAPTERS, "Queues: a field guide");
+
+    assert.match(read(".cursor/rules/guide-skill.mdc"), /^---\ndescription: "Queues: a field guide"\nglobs:\n/);
+  });
+
+  test("writes AGENTS.md without frontmatter and a Cursor rule with mdc links", () => {
+    const { read } = write(["skill", "agents-md", "cursor"]);
+
+    assert.match(read("SKILL.md"), /^---\nname: Guide Skill\n/);
+    const agents = read("AGENTS.md");
+    assert.match(agents, /^# Guide Skill\n/);
+    assert.match(agents, /- Publisher: Acme\n/);
+    assert.match(agents, /- \[2\. Usage\]\(references\/chapter-002-usage\.md\) \(3 words\)\n/);
+    const rule = read(".cursor/rules/guide-skill.mdc");
+    assert.match(rule, /^---\ndescription: Reference for the guide\nglobs:\nalwaysApply: false\n---\n/);
+    assert.match(rule, /- \[1\. Intro\]\(mdc:references\/chapter-001-intro\.md\)\n/);
+  });
+
+  test("defaults to the skill layout and rejects unknown formats", () => {
+    assert.deepEqual(validateFormats({}), ["skill"]);
+    assert.deepEqual(validateFormats({ format: ["cursor", "cursor"] }), ["cursor"]);
+    assert.throws(() => validateFormats({ format: ["docx" as OutputFormat] }), /--format value: docx/);
+  });
+});
@@ -0,0 +1,100 @@
+import AdmZip from "adm-zip";
+
+export type EpubChapter = {
+  id: string;
+  href: string;
+  html: string;
+};
+
+export type EpubFixtureOptions = {
+  metadataXml?: string;
+  chapters: EpubChapter[];
+  ncxTitles?: string[];
+  navTitles?: string[];
+  ncxNavMap?: string;
+  navOl?: string;
+  files?: Record<string, Buffer>;
+};
+
+export function createEpub(epubPath: string, options: EpubFixtureOptions): void {
+  const zip = new AdmZip();
+  const metadataXml =
+    options.metadataXml ||
+    `<dc:title>Sample Book</dc:title><dc:creator>Test Author</dc:creator><dc:language>en</dc:language><dc:publisher>Test Press</dc:publisher>`;
+
+  zip.addFile(
+    "META-INF/container.xml",
+    Buffer.from(
+      `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>`
+    )
+  );
+
+  const manifestItems = options.chapters
+    .map((chapter) => `<item id="${chapter.id}" href="${chapter.href}" media-type="application/xhtml+xml" />`)
+    .join("\n    ");
+  const spineItems = options.chapters.map((chapter) => `<itemref idref="${chapter.id}" />`).join("\n    ");
+  const hasNcx = Boolean(options.ncxTitles || options.ncxNavMap);
+  const hasNav = Boolean(options.navTitles || options.navOl);
+  const ncxManifest = hasNcx ? `<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml" />` : "";
+  const navManifest = hasNav ? `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />` : "";
+  const tocAttr = hasNcx ? ` toc="ncx"` : "";
+
+  zip.addFile(
+    "OEBPS/content.opf",
+    Buffer.from(
+      `<?xml version="1.0"?><package version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/"><metadata>${metadataXml}</metadata>
+  <manifest>
+    ${ncxManifest}
+    ${navManifest}
+    ${manifestItems}
+  </manifest><spine${tocAttr}>
+    ${spineItems}
+  </spine></package>`
+    )
+  );
+
+  if (options.ncxNavMap) {
+    zip.addFile("OEBPS/toc.ncx", Buffer.from(`<?xml version="1.0"?><ncx><navMap>${options.ncxNavMap}</navMap></ncx>`));
+  } else if (options.ncxTitles) {
+    const navPoints = options.ncxTitles
+      .map((title, index) => {
+        const chapter = options.chapters[index];
+        if (!chapter) {
+          return "";
+        }
+        return `<navPoint id="p${index + 1}" playOrder="${index + 1}"><navLabel><text>${title}</text></navLabel><content src="${chapter.href}" /></navPoint>`;
+      })
+      .join("");
+    zip.addFile("OEBPS/toc.ncx", Buffer.from(`<?xml version="1.0"?><ncx><navMap>${navPoints}</navMap></ncx>`));
+  }
+
+  if (options.navOl) {
+    zip.addFile(
+      "OEBPS/nav.xhtml",
+      Buffer.from(`<!doctype html><html><body><nav epub:type="toc">${options.navOl}</nav></body></html>`)
+    );
+  } else if (options.navTitles) {
+    const links = options.chapters
+      .map((chapter, index) => `<li><a href="${chapter.href}">${options.navTitles?.[index] || chapter.href}</a></li>`)
+      .join("");
+    zip.addFile(
+      "OEBPS/nav.xhtml",
+      Buffer.from(`<!doctype html><html><body><nav epub:type="toc"><ol>${links}</ol></nav></body></html>`)
+    );
+  }
+
+  for (const chapter of options.chapters) {
+    zip.addFile(`OEBPS/${chapter.href}`, Buffer.from(chapter.html));
+  }
+
+  for (const [filePath, data] of Object.entries(options.files || {})) {
+    zip.addFile(filePath, data);
+  }
+
+  zip.writeZip(epubPath);
+}
@@ -0,0 +1,41 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { formatInspection, inspectBook } from "../src/commands/inspect";
+import { createEpub } from "./helpers/epub-fixture";
+
+describe("inspect", () => {
+  test("reports book structure without writing any files", async () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-inspect-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    try {
+      createEpub(epubPath, {
+        chapters: [
+          { id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><p>Intro.</p></body></html>` },
+          { id: "ch2", href: "ch2.xhtml", html: `<!doctype html><html><body><p>Main body text.</p></body></html>` }
+        ],
+        navTitles: ["Contents", "The Essay"]
+      });
+
+      const inspection = await inspectBook(epubPath, {
+        maxChapterWords: 15000,
+        filterBoilerplate: true,
+        stripImages: true,
+        stripInternalLinks: true,
+        normalize: "never"
+      });
+      const report = formatInspection(inspection);
+
+      assert.match(report, /Title: Sample Book/);
+      assert.match(report, /TOC \(nav, 2 entries\)/);
+      assert.match(report, /Chapters \(1\)/);
+      assert.match(report, /title-front-matter\s+1\s+Contents/);
+      assert.deepEqual(fs.readdirSync(tmp), ["sample.epub"]);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+});
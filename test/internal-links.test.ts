@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { headingAnchor, linkChapterFiles, resolveInternalLinks } from "../src/internal-links";
+import type { Chapter } from "../src/types";
+
+function chapter(index: number, title: string, markdown: string): Chapter {
+  return { index, title, slug: title.toLowerCase(), sourceFile: "ch.xhtml", markdown, wordCount: 1 };
+}
+
+describe("internal-links", () => {
+  test("builds github-style heading anchors", () => {
+    assert.equal(headingAnchor("Chapter 7: The End?"), "chapter-7-the-end");
+  });
+
+  test("finds link targets in the part of a split chapter that holds their heading", () => {
+    const origin = chapter(1, "Long", "");
+    const parts = [
+      chapter(1, "Long Part 1", "# Long\n\nSee [later](injectbook-link:OEBPS%2Flong.xhtml%23late)."),
+      chapter(2, "Long Part 2", "## Late Topic\n\nText.")
+    ];
+
+    const [first] = resolveInternalLinks(
+      parts,
+      [origin, origin],
+      new Map([["OEBPS/long.xhtml#late", { chapter: origin, heading: "Late Topic" }]])
+    );
+    assert.equal(first.markdown, "# Long\n\nSee [later](injectbook-chapter:2#late-topic).");
+  });
+
+  test("links chapter placeholders to generated file names", () => {
+    assert.equal(
+      linkChapterFiles("See [later](injectbook-chapter:2#late-topic).", (index) =>
+        index === 2 ? "chapter-002-late.md" : undefined
+      ),
+      "See [later](chapter-002-late.md#late-topic)."
+    );
+  });
+});
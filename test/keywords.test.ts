@@ -0,0 +1,57 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { extractKeywords } from "../src/keywords";
+import { writeSkill } from "../src/skill-writer";
+import type { Chapter } from "../src/types";
+
+function chapter(index: number, title: string, markdown: string): Chapter {
+  return { index, title, slug: title.toLowerCase(), sourceFile: `ch${index}.xhtml`, markdown, wordCount: 1 };
+}
+
+const CHAPTERS = [
+  chapter(
+    1,
+    "Caching",
+    "The cache keeps results. A cache miss reads storage. Systems scale when the cache is warm and storage is quiet."
+  ),
+  chapter(
+    2,
+    "Queues",
+    "A queue buffers messages. Each queue has consumers. Systems scale when consumers drain the queue and messages flow."
+  )
+];
+
+describe("keywords", () => {
+  test("ranks terms frequent in a chapter but rare in the rest of the book", () => {
+    const { chapters, book } = extractKeywords(CHAPTERS);
+
+    assert.deepEqual(chapters, [
+      ["cache", "storage"],
+      ["queue", "consumers", "messages"]
+    ]);
+    assert.deepEqual(book.slice(0, 2).sort(), ["cache", "queue"]);
+    assert.ok(!chapters.flat().includes("systems"));
+    assert.deepEqual(extractKeywords(CHAPTERS), { chapters, book });
+  });
+
+  test("writes keywords to frontmatter and the chapter index when enabled", () => {
+    const outDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-keywords-")), "skill");
+    writeSkill({ authors: [], tags: [] }, CHAPTERS, {
+      outDir,
+      skillName: "skill",
+      description: "Skill",
+      chapterPrefix: "chapter-",
+      includeFullBook: false,
+      overwrite: false,
+      keywords: true
+    });
+
+    const chapterText = fs.readFileSync(path.join(outDir, "references", "chapter-002-queues.md"), "utf8");
+    assert.match(chapterText, /\nkeywords: \["queue", "consumers", "messages"\]\n/);
+    const skillText = fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8");
+    assert.match(skillText, /~\d+ tokens\) \[keywords: cache, storage\]\n/);
+  });
+});
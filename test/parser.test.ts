@@ -3,91 +3,8 @@ import os from "node:os";
 import path from "node:path";
 import assert from "node:assert/strict";
 import { describe, test } from "node:test";
-import AdmZip from "adm-zip";
-import { parseEpubToChapters, slugify } from "../src/parser";
-
-type EpubChapter = {
-  id: string;
-  href: string;
-  html: string;
-};
-
-type EpubFixtureOptions = {
-  metadataXml?: string;
-  chapters: EpubChapter[];
-  ncxTitles?: string[];
-  navTitles?: string[];
-};
-
-function createEpub(epubPath: string, options: EpubFixtureOptions): void {
-  const zip = new AdmZip();
-  const metadataXml =
-    options.metadataXml ||
-    `<dc:title>Sample Book</dc:title><dc:creator>Test Author</dc:creator><dc:language>en</dc:language><dc:publisher>Test Press</dc:publisher>`;
-
-  zip.addFile(
-    "META-INF/container.xml",
-    Buffer.from(
-      `<?xml version="1.0"?>
-<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
-  <rootfiles>
-    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
-  </rootfiles>
-</container>`
-    )
-  );
-
-  const manifestItems = options.chapters
-    .map((chapter) => `<item id="${chapter.id}" href="${chapter.href}" media-type="application/xhtml+xml" />`)
-    .join("\n    ");
-  const spineItems = options.chapters.map((chapter) => `<itemref idref="${chapter.id}" />`).join("\n    ");
-  const ncxManifest = options.ncxTitles ? `<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml" />` : "";
-  const navManifest = options.navTitles ? `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />` : "";
-  const tocAttr = options.ncxTitles ? ` toc="ncx"` : "";
-
-  zip.addFile(
-    "OEBPS/content.opf",
-    Buffer.from(
-      `<?xml version="1.0"?><package version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/"><metadata>${metadataXml}</metadata>
-  <manifest>
-    ${ncxManifest}
-    ${navManifest}
-    ${manifestItems}
-  </manifest><spine${tocAttr}>
-    ${spineItems}
-  </spine></package>`
-    )
-  );
-
-  if (options.ncxTitles) {
-    const navPoints = options.ncxTitles
-      .map((title, index) => {
-        const chapter = options.chapters[index];
-        if (!chapter) {
-          return "";
-        }
-        return `<navPoint id="p${index + 1}" playOrder="${index + 1}"><navLabel><text>${title}</text></navLabel><content src="${chapter.href}" /></navPoint>`;
-      })
-      .join("");
-    zip.addFile("OEBPS/toc.ncx", Buffer.from(`<?xml version="1.0"?><ncx><navMap>${navPoints}</navMap></ncx>`));
-  }
-
-  if (options.navTitles) {
-    const links = options.chapters
-      .map((chapter, index) => `<li><a href="${chapter.href}">${options.navTitles?.[index] || chapter.href}</a></li>`)
-      .join("");
-    zip.addFile(
-      "OEBPS/nav.xhtml",
-      Buffer.from(`<!doctype html><html><body><nav epub:type="toc"><ol>${links}</ol></nav></body></html>`)
-    );
-  }
-
-  for (const chapter of options.chapters) {
-    zip.addFile(`OEBPS/${chapter.href}`, Buffer.from(chapter.html));
-  }
-
-  zip.writeZip(epubPath);
-}
+import { inspectEpub, parseEpubToChapters, slugify, validateEpub } from "../src/parser";
+import { createEpub } from "./helpers/epub-fixture";
 
 describe("parser", () => {
   test("slugify normalizes text", () => {
@@ -130,6 +47,73 @@ describe("parser", () => {
     fs.rmSync(tmp, { recursive: true, force: true });
   });
 
+  test("reads identifiers, dates, blurb, contributors and calibre series from EPUB 2 metadata", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-opf2-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    createEpub(epubPath, {
+      metadataXml: [
+        `<dc:title>1984</dc:title>`,
+        `<dc:creator opf:role="aut" opf:file-as="Orwell, George" xmlns:opf="urn">George Orwell</dc:creator>`,
+        `<dc:contributor opf:role="trl" xmlns:opf="urn">Jane Roe</dc:contributor>`,
+        `<dc:identifier opf:scheme="calibre" xmlns:opf="urn">a1b2c3</dc:identifier>`,
+        `<dc:identifier opf:scheme="ISBN" xmlns:opf="urn">0-452-28423-6</dc:identifier>`,
+        `<dc:date opf:event="modification" xmlns:opf="urn">2020-01-01</dc:date>`,
+        `<dc:date opf:event="publication" xmlns:opf="urn">1949-06-08</dc:date>`,
+        `<dc:description>&lt;p&gt;A &lt;b&gt;dystopian&lt;/b&gt; novel.&lt;/p&gt;&lt;p&gt;Big Brother &amp;amp; you.&lt;/p&gt;</dc:description>`,
+        `<meta name="calibre:series" content="Classics"/><meta name="calibre:series_index" content="2.0"/>`
+      ].join(""),
+      chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Chapter</h1><p>Body.</p></body></html>` }]
+    });
+
+    const { metadata } = parseEpubToChapters(epubPath);
+    assert.equal(metadata.title, "1984");
+    assert.deepEqual(metadata.identifiers, [
+      { value: "a1b2c3", scheme: "calibre" },
+      { value: "0-452-28423-6", scheme: "ISBN" }
+    ]);
+    assert.equal(metadata.isbn, "0452284236");
+    assert.equal(metadata.date, "1949-06-08");
+    assert.equal(metadata.description, "A dystopian novel. Big Brother & you.");
+    assert.deepEqual(metadata.creators, [{ name: "George Orwell", role: "aut", fileAs: "Orwell, George" }]);
+    assert.deepEqual(metadata.contributors, [{ name: "Jane Roe", role: "trl" }]);
+    assert.equal(metadata.series, "Classics");
+    assert.equal(metadata.seriesIndex, 2);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("applies EPUB 3 meta refines to creators, identifiers and collections", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-opf3-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    createEpub(epubPath, {
+      metadataXml: [
+        `<dc:title>Sample Book</dc:title>`,
+        `<dc:creator id="c1">Ada Lovelace</dc:creator>`,
+        `<meta refines="#c1" property="role" scheme="marc:relators">edt</meta>`,
+        `<meta refines="#c1" property="file-as">Lovelace, Ada</meta>`,
+        `<dc:identifier id="pub-id">urn:isbn:9780131103627</dc:identifier>`,
+        `<dc:identifier id="other">10.1000/182</dc:identifier>`,
+        `<meta refines="#other" property="identifier-type" scheme="onix:codelist5">06</meta>`,
+        `<meta property="belongs-to-collection" id="s1">Engines</meta>`,
+        `<meta refines="#s1" property="group-position">3</meta>`
+      ].join(""),
+      chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Chapter</h1><p>Body.</p></body></html>` }]
+    });
+
+    const { metadata } = parseEpubToChapters(epubPath);
+    assert.deepEqual(metadata.creators, [{ name: "Ada Lovelace", role: "edt", fileAs: "Lovelace, Ada" }]);
+    assert.deepEqual(metadata.identifiers, [
+      { value: "9780131103627", scheme: "ISBN" },
+      { value: "10.1000/182", scheme: "DOI" }
+    ]);
+    assert.equal(metadata.isbn, "9780131103627");
+    assert.equal(metadata.series, "Engines");
+    assert.equal(metadata.seriesIndex, 3);
+    assert.equal(metadata.description, undefined);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
   test("prefers epub3 nav labels over ncx and headings", () => {
     const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-nav-"));
     const epubPath = path.join(tmp, "sample.epub");
@@ -171,6 +155,167 @@ describe("parser", () => {
     fs.rmSync(tmp, { recursive: true, force: true });
   });
 
+  test("copies referenced images to content-hashed assets when images are kept", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-assets-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const diagram = Buffer.from("fake-png-bytes");
+
+    createEpub(epubPath, {
+      chapters: [
+        {
+          id: "ch1",
+          href: "text/ch1.xhtml",
+          html: `<html><body><h1>One</h1><p>See the diagram.</p><img src="../images/Diagram.PNG" alt="Flow"/><img src="https://example.com/remote.png" alt="Remote"/></body></html>`
+        },
+        {
+          id: "ch2",
+          href: "text/ch2.xhtml",
+          html: `<html><body><h1>Two</h1><p>Same diagram again.</p><img src="../images/copy.png" alt="Copy"/></body></html>`
+        }
+      ],
+      files: {
+        "OEBPS/images/Diagram.PNG": diagram,
+        "OEBPS/images/copy.png": diagram
+      }
+    });
+
+    const result = parseEpubToChapters(epubPath, { stripImages: false });
+    assert.equal(result.assets.length, 1);
+    const [asset] = result.assets;
+    assert.match(asset.fileName, /^[0-9a-f]{16}\.png$/);
+    assert.equal(asset.sourcePath, "OEBPS/images/Diagram.PNG");
+    assert.deepEqual(asset.data, diagram);
+    assert.match(result.chapters[0]?.markdown || "", new RegExp(`!\\[Flow\\]\\(assets/${asset.fileName}\\)`));
+    assert.match(result.chapters[0]?.markdown || "", /!\[Remote\]\(https:\/\/example\.com\/remote\.png\)/);
+    assert.match(result.chapters[1]?.markdown || "", new RegExp(`assets/${asset.fileName}`));
+
+    assert.deepEqual(parseEpubToChapters(epubPath).assets, []);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("turns noterefs and footnote asides into markdown footnotes", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-footnotes-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    createEpub(epubPath, {
+      chapters: [
+        {
+          id: "ch1",
+          href: "ch1.xhtml",
+          html: `<html><body><h1>One</h1><p>A claim<sup><a epub:type="noteref" id="r1" href="notes.xhtml#n1">1</a></sup> and an aside<a href="#fn-a">*</a>.</p><aside epub:type="footnote" id="fn-a"><p>Aside <em>detail</em>.</p></aside><p>More text.</p></body></html>`
+        },
+        {
+          id: "notes",
+          href: "notes.xhtml",
+          html: `<html><body><h1>Notes</h1><ol><li id="n1"><a href="ch1.xhtml#r1">1</a>. Source for the claim.</li></ol></body></html>`
+        }
+      ],
+      ncxTitles: ["One", "Notes"]
+    });
+
+    const result = parseEpubToChapters(epubPath);
+    assert.deepEqual(
+      result.chapters.map((chapter) => chapter.title),
+      ["One"]
+    );
+    assert.equal(
+      result.chapters[0]?.markdown,
+      "# One\n\nA claim[^1] and an aside[^2].\n\nMore text.\n\n[^1]: Source for the claim.\n\n[^2]: Aside _detail_."
+    );
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("keeps chapter text when a noteref points at a plain anchor in a section or div", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-anchor-notes-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    createEpub(epubPath, {
+      chapters: [
+        {
+          id: "ch1",
+          href: "ch1.xhtml",
+          html: `<html><body><h1>One</h1><p>See<a epub:type="noteref" href="ch2.xhtml#n1">1</a> and<a epub:type="noteref" href="ch3.xhtml#n2">2</a>.</p></body></html>`
+        },
+        {
+          id: "ch2",
+          href: "ch2.xhtml",
+          html: `<html><body><section><h1>Two</h1><a id="n1"></a>Body of chapter two.</section></body></html>`
+        },
+        {
+          id: "ch3",
+          href: "ch3.xhtml",
+          html: `<html><body><div><h1>Three</h1><a id="n2"></a><span>Body of chapter three.</span></div></body></html>`
+        }
+      ],
+      ncxTitles: ["One", "Two", "Three"]
+    });
+
+    const result = parseEpubToChapters(epubPath);
+    assert.deepEqual(
+      result.chapters.map((chapter) => chapter.markdown),
+      ["# One\n\nSee1 and2.", "# Two\n\nBody of chapter two.", "# Three\n\nBody of chapter three."]
+    );
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("keeps footnote labels unique when toc depth merges segments into one chapter", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-merged-footnotes-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const page = (title: string, note: string) =>
+      `<html><body><h1>${title}</h1><p>Claim<a epub:type="noteref" href="#fn1">1</a>.</p><aside epub:type="footnote" id="fn1"><p>${note}</p></aside></body></html>`;
+
+    createEpub(epubPath, {
+      chapters: [
+        { id: "ch1", href: "ch1.xhtml", html: page("One", "First note.") },
+        { id: "sec", href: "sec.xhtml", html: page("Section", "Second note.") }
+      ],
+      navOl: `<ol><li><a href="ch1.xhtml">One</a><ol><li><a href="sec.xhtml">Section</a></li></ol></li></ol>`
+    });
+
+    const result = parseEpubToChapters(epubPath, { tocDepth: 1 });
+    assert.equal(result.chapters.length, 1);
+    assert.equal(
+      result.chapters[0]?.markdown,
+      "# One\n\nClaim[^1].\n\n# Section\n\nClaim[^1-2].\n\n[^1]: First note.\n\n[^1-2]: Second note."
+    );
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("maps internal links to chapter placeholders when rewriting them", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-links-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    createEpub(epubPath, {
+      chapters: [
+        {
+          id: "ch1",
+          href: "text/ch1.xhtml",
+          html: `<html><body><h1>One</h1><p>See <a href="ch2.xhtml#deep">the section</a>, <a href="ch2.xhtml">chapter two</a> and <a href="gone.xhtml#x">a lost page</a>.</p></body></html>`
+        },
+        {
+          id: "ch2",
+          href: "text/ch2.xhtml",
+          html: `<html><body><h1>Two</h1><p>Intro.</p><h2>Second Section</h2><p id="deep">Deep text.</p></body></html>`
+        }
+      ]
+    });
+
+    const rewritten = parseEpubToChapters(epubPath, { rewriteInternalLinks: true });
+    assert.match(
+      rewritten.chapters[0]?.markdown || "",
+      /See \[the section\]\(injectbook-chapter:2#second-section\), \[chapter two\]\(injectbook-chapter:2\) and a lost page\./
+    );
+
+    const stripped = parseEpubToChapters(epubPath);
+    assert.match(stripped.chapters[0]?.markdown || "", /See the section, chapter two and a lost page\./);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
   test("filters boilerplate sections by default", () => {
     const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-filter-"));
     const epubPath = path.join(tmp, "sample.epub");
@@ -284,6 +429,27 @@ describe("parser", () => {
     fs.rmSync(tmp, { recursive: true, force: true });
   });
 
+  test("splits chapters that exceed the token budget but not the word limit", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-token-split-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    // Dense CJK text: few whitespace-separated words, many tokens.
+    const paragraphs = Array.from({ length: 4 }, () => `<p>${"漢字".repeat(50)}</p>`).join("");
+
+    createEpub(epubPath, {
+      chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Dense</h1>${paragraphs}</body></html>` }]
+    });
+
+    assert.equal(parseEpubToChapters(epubPath, { maxChapterWords: 40 }).chapters.length, 1);
+
+    const result = parseEpubToChapters(epubPath, { maxChapterWords: 40, maxChapterTokens: 150 });
+    assert.deepEqual(
+      result.chapters.map((chapter) => chapter.title),
+      ["Dense Part 1", "Dense Part 2", "Dense Part 3", "Dense Part 4"]
+    );
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
   test("normalizes numeric split headings to chapter titles", () => {
     const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-numeric-heading-"));
     const epubPath = path.join(tmp, "sample.epub");
@@ -410,4 +576,211 @@ describe("parser", () => {
 
     fs.rmSync(tmp, { recursive: true, force: true });
   });
+
+  test("turns a linked back-of-book index into term index entries", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-term-index-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    createEpub(epubPath, {
+      chapters: [
+        {
+          id: "ch1",
+          href: "ch1.xhtml",
+          html: `<html><body><h1>Caching</h1><p>Intro.</p><h2>Eviction</h2><p id="p12">Evict old entries.</p></body></html>`
+        },
+        { id: "ch2", href: "ch2.xhtml", html: `<html><body><h1>Retries</h1><p id="p30">Back off.</p></body></html>` },
+        {
+          id: "idx",
+          href: "index.xhtml",
+          html: `<html><body><section epub:type="index"><h1>Index</h1><ul>
+            <li>cache, <a href="ch1.xhtml#p12">12</a>, <a href="ch2.xhtml#p30">30</a>
+              <ul><li>eviction, <a href="ch1.xhtml#p12">12</a></li></ul></li>
+            <li>retry, <a href="ch2.xhtml">30</a>. See also backoff</li>
+            <li>unlinked term, 45</li>
+          </ul></section></body></html>`
+        }
+      ]
+    });
+
+    const result = parseEpubToChapters(epubPath);
+    assert.deepEqual(
+      result.chapters.map((chapter) => chapter.title),
+      ["Caching", "Retries"]
+    );
+    assert.equal(result.excluded.find((entry) => entry.title === "Index")?.ruleId, "back-of-book-index");
+    assert.deepEqual(result.termIndex, [
+      {
+        term: "cache",
+        parents: [],
+        chapters: [
+          { index: 1, anchor: "eviction" },
+          { index: 2, anchor: "retries" }
+        ]
+      },
+      { term: "eviction", parents: ["cache"], chapters: [{ index: 1, anchor: "eviction" }] },
+      { term: "retry", parents: [], chapters: [{ index: 2 }] }
+    ]);
+
+    const kept = parseEpubToChapters(epubPath, { filterBoilerplate: false });
+    assert.ok(kept.chapters.some((chapter) => chapter.title === "Index"));
+    assert.equal(kept.termIndex.length, 3);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("validates epub packages for the native path", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-validate-"));
+    const epubPath = path.join(tmp, "sample.epub");
+    const notEpubPath = path.join(tmp, "notes.epub");
+
+    createEpub(epubPath, {
+      chapters: [{ id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><h1>Chapter</h1><p>Body.</p></body></html>` }]
+    });
+    fs.writeFileSync(notEpubPath, "plain text, not a zip archive");
+
+    assert.deepEqual(validateEpub(epubPath), { version: "2", opfPath: "OEBPS/content.opf" });
+    assert.throws(() => validateEpub(notEpubPath), /Not a readable EPUB archive/);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("keeps nested nav hierarchy as chapter depth and parent", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-nested-nav-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    createEpub(epubPath, {
+      chapters: [
+        { id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><p>First chapter body.</p></body></html>` },
+        { id: "s1", href: "s1.xhtml", html: `<!doctype html><html><body><p>Section body.</p></body></html>` },
+        { id: "ch2", href: "ch2.xhtml", html: `<!doctype html><html><body><p>Second chapter body.</p></body></html>` }
+      ],
+      navOl: `<ol><li><span>Part One</span><ol><li><a href="ch1.xhtml">Beginnings</a><ol><li><a href="s1.xhtml">A Section</a></li></ol></li><li><a href="ch2.xhtml">Middles</a></li></ol></li></ol>`
+    });
+
+    const result = parseEpubToChapters(epubPath);
+    assert.deepEqual(
+      result.chapters.map((chapter) => [chapter.title, chapter.depth, chapter.parent, chapter.tocId, chapter.parentTocId]),
+      [
+        ["Beginnings", 2, "Part One", 1, 0],
+        ["A Section", 3, "Beginnings", 2, 1],
+        ["Middles", 2, "Part One", 3, 0]
+      ]
+    );
+
+    const shallow = parseEpubToChapters(epubPath, { tocDepth: 2 });
+    assert.deepEqual(
+      shallow.chapters.map((chapter) => chapter.title),
+      ["Beginnings", "Middles"]
+    );
+    assert.match(shallow.chapters[0]?.markdown || "", /Section body\./);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("reads nested ncx navPoints", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-nested-ncx-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    createEpub(epubPath, {
+      chapters: [
+        { id: "part1", href: "part1.xhtml", html: `<!doctype html><html><body><p>Part intro.</p></body></html>` },
+        { id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><p>Chapter body.</p></body></html>` }
+      ],
+      ncxNavMap: `<navPoint id="p1"><navLabel><text>Part One</text></navLabel><content src="part1.xhtml" /><navPoint id="p2"><navLabel><text>Chapter One</text></navLabel><content src="ch1.xhtml" /></navPoint></navPoint>`
+    });
+
+    const result = parseEpubToChapters(epubPath);
+    assert.equal(result.chapters.length, 2);
+    assert.equal(result.chapters[1]?.title, "Chapter One");
+    assert.equal(result.chapters[1]?.depth, 2);
+    assert.equal(result.chapters[1]?.parent, "Part One");
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("splits a single spine file at toc fragment anchors", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-fragments-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    createEpub(epubPath, {
+      chapters: [
+        {
+          id: "book",
+          href: "book.xhtml",
+          html: `<!doctype html><html><body><section id="ch1"><h1>One</h1><p>First body.</p></section><section id="ch2"><h1>Two</h1><p>Second body.</p></section><h1 id="ch3">Three</h1><p>Third body.</p></body></html>`
+        }
+      ],
+      navOl: `<ol><li><a href="book.xhtml#ch1">Chapter One</a></li><li><a href="book.xhtml#ch2">Chapter Two</a></li><li><a href="book.xhtml#ch3">Chapter Three</a></li></ol>`
+    });
+
+    const result = parseEpubToChapters(epubPath);
+    assert.deepEqual(
+      result.chapters.map((chapter) => [chapter.title, chapter.sourceFile]),
+      [
+        ["Chapter One", "OEBPS/book.xhtml#ch1"],
+        ["Chapter Two", "OEBPS/book.xhtml#ch2"],
+        ["Chapter Three", "OEBPS/book.xhtml#ch3"]
+      ]
+    );
+    assert.match(result.chapters[1]?.markdown || "", /Second body\./);
+    assert.doesNotMatch(result.chapters[1]?.markdown || "", /First body|Third body/);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("splits before the heading that holds a toc fragment anchor", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-heading-anchor-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    createEpub(epubPath, {
+      chapters: [
+        {
+          id: "book",
+          href: "book.xhtml",
+          html: `<!doctype html><html><body><h2><a id="ch1"/>One</h2><p>First body.</p><h2 class="title"><span><a name="ch2"></a></span>Two</h2><p>Second body.</p></body></html>`
+        }
+      ],
+      navOl: `<ol><li><a href="book.xhtml#ch1">Chapter One</a></li><li><a href="book.xhtml#ch2">Chapter Two</a></li></ol>`
+    });
+
+    const result = parseEpubToChapters(epubPath);
+    assert.equal(result.chapters.length, 2);
+    assert.equal(result.chapters[0]?.markdown, "## One\n\nFirst body.");
+    assert.equal(result.chapters[1]?.markdown, "## Two\n\nSecond body.");
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("inspects spine, toc and boilerplate drops without throwing", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-epub-inspect-"));
+    const epubPath = path.join(tmp, "sample.epub");
+
+    createEpub(epubPath, {
+      chapters: [
+        { id: "ch1", href: "ch1.xhtml", html: `<!doctype html><html><body><p>Intro.</p></body></html>` },
+        { id: "ch2", href: "ch2.xhtml", html: `<!doctype html><html><body><p>Main body text.</p></body></html>` }
+      ],
+      ncxTitles: ["Table of Contents", "The Essay"]
+    });
+
+    const inspection = inspectEpub(epubPath);
+    assert.equal(inspection.tocSource, "ncx");
+    assert.deepEqual(
+      inspection.spine.map((item) => [item.href, item.inToc]),
+      [
+        ["ch1.xhtml", true],
+        ["ch2.xhtml", true]
+      ]
+    );
+    assert.deepEqual(
+      inspection.chapters.map((chapter) => chapter.title),
+      ["The Essay"]
+    );
+    assert.equal(inspection.excluded.length, 1);
+    assert.equal(inspection.excluded[0]?.title, "Table of Contents");
+    assert.equal(inspection.excluded[0]?.ruleId, "title-front-matter");
+    assert.match(inspection.excluded[0]?.reason || "", /matched by title/);
+
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
 });
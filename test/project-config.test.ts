@@ -0,0 +1,78 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { ConvertOptions } from "../src/commands/convert";
+import { applyProjectConfig, findProjectConfig, loadProjectConfig } from "../src/config/project-config";
+
+const CLI_OPTIONS: ConvertOptions = {
+  includeFullBook: true,
+  chapterPrefix: "chapter-",
+  maxChapterWords: 15000,
+  filterBoilerplate: true,
+  stripImages: true,
+  stripInternalLinks: true,
+  calibreArgs: []
+};
+
+describe("project-config", () => {
+  test("finds the nearest config file walking up from a directory", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-config-find-"));
+
+    try {
+      const nested = path.join(tmp, "a", "b");
+      fs.mkdirSync(nested, { recursive: true });
+      fs.writeFileSync(path.join(tmp, ".injectbookrc"), "{}");
+
+      assert.equal(findProjectConfig(nested), path.join(tmp, ".injectbookrc"));
+
+      fs.writeFileSync(path.join(tmp, "a", "injectbook.config.json"), "{}");
+      assert.equal(findProjectConfig(nested), path.join(tmp, "a", "injectbook.config.json"));
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("layers defaults, profile and explicit cli flags", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-config-apply-"));
+
+    try {
+      const configPath = path.join(tmp, "injectbook.config.json");
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({
+          defaults: { maxChapterWords: 8000, installDir: "skills", chapterPrefix: "ch-" },
+          profiles: { technical: { maxChapterWords: 4000, calibreArgs: ["--enable-heuristics"] } }
+        })
+      );
+
+      const config = loadProjectConfig(configPath);
+      const resolved = applyProjectConfig(CLI_OPTIONS, config, "technical", (key) => key === "chapterPrefix");
+
+      assert.equal(resolved.maxChapterWords, 4000);
+      assert.equal(resolved.installDir, path.join(tmp, "skills"));
+      assert.equal(resolved.chapterPrefix, "chapter-");
+      assert.deepEqual(resolved.calibreArgs, ["--enable-heuristics"]);
+
+      assert.throws(() => applyProjectConfig(CLI_OPTIONS, config, "fiction", () => false), /Unknown profile "fiction"/);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects unknown or mistyped config options", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-config-invalid-"));
+
+    try {
+      const configPath = path.join(tmp, ".injectbookrc");
+      fs.writeFileSync(configPath, JSON.stringify({ defaults: { maxChapterWord: 10 } }));
+      assert.throws(() => loadProjectConfig(configPath), /Unknown option "maxChapterWord"/);
+
+      fs.writeFileSync(configPath, JSON.stringify({ profiles: { fiction: { stripImages: "yes" } } }));
+      assert.throws(() => loadProjectConfig(configPath), /expected boolean/);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+});
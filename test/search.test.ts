@@ -0,0 +1,116 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { formatSearchResults, searchSkill } from "../src/commands/search";
+import { buildSearchIndex, rankPassages, tokenize } from "../src/search-index";
+import { writeSkill } from "../src/skill-writer";
+import type { Chapter } from "../src/types";
+
+const chapters: Chapter[] = [
+  {
+    index: 1,
+    title: "Caching",
+    slug: "caching",
+    sourceFile: "OEBPS/ch1.xhtml",
+    markdown: "# Caching\n\nA cache keeps recent results close.\n\n## Eviction\n\nEviction removes the least recently used cache entry.",
+    wordCount: 15
+  },
+  {
+    index: 2,
+    title: "Retries",
+    slug: "retries",
+    sourceFile: "OEBPS/ch2.xhtml",
+    markdown: "# Retries\n\nRetry failed requests with exponential backoff.",
+    wordCount: 8
+  }
+];
+
+function writeIndexedSkill(searchIndex: boolean): string {
+  const outDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-search-")), "skill");
+  writeSkill({ title: "Systems", authors: [], tags: [] }, chapters, {
+    outDir,
+    skillName: "systems",
+    description: "Systems reference",
+    chapterPrefix: "chapter-",
+    includeFullBook: true,
+    overwrite: false,
+    searchIndex
+  });
+  return outDir;
+}
+
+describe("search index", () => {
+  test("tokenizes case- and accent-insensitively without stopwords", () => {
+    assert.deepEqual(tokenize("The Café's *cache* is 2x faster"), ["cafe", "s", "cache", "2x", "faster"]);
+  });
+
+  test("indexes paragraphs with heading paths, lines and offsets", () => {
+    const content = "---\ntitle: \"Caching\"\n---\n\n# Caching\n\nFirst paragraph.\n\n## Eviction\n\nSecond\nparagraph.\n";
+    const index = buildSearchIndex([{ file: "references/a.md", content }]);
+
+    assert.deepEqual(
+      index.passages.map(({ headingPath, line, endLine }) => ({ headingPath, line, endLine })),
+      [
+        { headingPath: ["Caching"], line: 7, endLine: 7 },
+        { headingPath: ["Caching", "Eviction"], line: 11, endLine: 12 }
+      ]
+    );
+    const [, second] = index.passages;
+    assert.equal(content.slice(second.offset, second.offset + second.length), "Second\nparagraph.");
+    assert.deepEqual(index.terms.paragraph, [
+      [0, 1],
+      [1, 1]
+    ]);
+  });
+
+  test("ranks passages with more matching terms first", () => {
+    const index = buildSearchIndex([
+      { file: "a.md", content: "cache basics\n\ncache eviction removes cache entries\n\nunrelated text" }
+    ]);
+    const ranked = rankPassages(index, "cache eviction", 10);
+
+    assert.deepEqual(
+      ranked.map(({ passage }) => passage.line),
+      [3, 1]
+    );
+    assert.ok(ranked[0].score > ranked[1].score);
+  });
+
+  test("ignores query words that are Object.prototype names", () => {
+    const index = JSON.parse(JSON.stringify(buildSearchIndex([{ file: "a.md", content: "cache basics" }])));
+    assert.deepEqual(rankPassages(index, "constructor toString __proto__", 10), []);
+    assert.equal(rankPassages(index, "constructor cache", 10).length, 1);
+  });
+
+  test("writeSkill writes a deterministic index only when asked", () => {
+    const indexed = writeIndexedSkill(true);
+    const again = writeIndexedSkill(true);
+    const plain = writeIndexedSkill(false);
+    const indexPath = path.join("references", "search-index.json");
+
+    assert.equal(fs.readFileSync(path.join(indexed, indexPath), "utf8"), fs.readFileSync(path.join(again, indexPath), "utf8"));
+    assert.equal(fs.existsSync(path.join(plain, indexPath)), false);
+  });
+
+  test("searchSkill returns ranked passages with file:line references", () => {
+    const skillDir = writeIndexedSkill(true);
+    const hits = searchSkill(skillDir, "cache eviction", { limit: 1 });
+
+    assert.equal(hits.length, 1);
+    assert.equal(hits[0].file, "references/chapter-001-caching.md");
+    assert.deepEqual(hits[0].headingPath, ["Caching", "Eviction"]);
+    assert.equal(hits[0].text, "Eviction removes the least recently used cache entry.");
+    const lines = fs.readFileSync(path.join(skillDir, hits[0].file), "utf8").split("\n");
+    assert.equal(lines[hits[0].line - 1], hits[0].text);
+    assert.match(formatSearchResults(hits), /^1\. references\/chapter-001-caching\.md:\d+ Caching > Eviction \(score/);
+  });
+
+  test("searchSkill explains how to create a missing index", () => {
+    const skillDir = writeIndexedSkill(false);
+    assert.throws(() => searchSkill(skillDir, "cache", { limit: 5 }), (error: unknown) => {
+      return error instanceof Error && /--search-index/.test(error.message) && (error as { code?: number }).code === 2;
+    });
+  });
+});
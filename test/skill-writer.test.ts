@@ -2,9 +2,10 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import assert from "node:assert/strict";
-import { describe, test } from "node:test";
+import { describe, mock, test } from "node:test";
 import { createChapterFileName, writeSkill } from "../src/skill-writer";
 import type { Chapter } from "../src/types";
+import { yamlPlainOrQuoted } from "../src/yaml-scalar";
 
 describe("skill-writer", () => {
   test("creates deterministic chapter file names", () => {
@@ -61,14 +62,24 @@ describe("skill-writer", () => {
 
     const skillText = fs.readFileSync(skillPath, "utf8");
     assert.match(skillText, /name: Example Book Skill/);
-    assert.match(skillText, /\[Introduction\]\(references\/chapter-001-introduction.md\) \(3 words\)/);
+    assert.match(skillText, /\[Introduction\]\(references\/chapter-001-introduction.md\) \(3 words, ~5 tokens\)/);
 
     const chapterText = fs.readFileSync(chapterPath, "utf8");
     assert.match(chapterText, /title: "Introduction"/);
+    assert.match(chapterText, /\nword_count: 3\ntoken_estimate: 5\n/);
 
     fs.rmSync(outDir, { recursive: true, force: true });
   });
 
+  test("leaves SKILL.md values plain only when YAML reads them back unchanged", () => {
+    for (const value of ["0x1F", "0o17", ".inf", ".nan", "~", "yes", "Off", "1e3", "3:2", "", " padded", "- item", "A: B"]) {
+      assert.equal(yamlPlainOrQuoted(value), JSON.stringify(value));
+    }
+    for (const value of ["Guide Skill", "C++ in 21 Days", "O'Reilly Guide", "Ratio 3:2"]) {
+      assert.equal(yamlPlainOrQuoted(value), value);
+    }
+  });
+
   test("quotes chapter titles with colons in frontmatter", () => {
     const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-colon-test-"));
 
@@ -99,4 +110,298 @@ describe("skill-writer", () => {
 
     fs.rmSync(outDir, { recursive: true, force: true });
   });
+
+  test("surfaces OPF identifiers, dates, series, contributors and the blurb", () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-opf-test-"));
+
+    writeSkill(
+      {
+        title: "Engines",
+        authors: ["Ada Lovelace"],
+        tags: [],
+        identifiers: [{ value: "9780131103627", scheme: "ISBN" }],
+        isbn: "9780131103627",
+        date: "1843-10-01",
+        description: "Notes on the analytical engine.",
+        contributors: [{ name: "Charles Babbage", role: "edt" }],
+        series: "Machines",
+        seriesIndex: 2
+      },
+      [{ index: 1, title: "Notes", slug: "notes", sourceFile: "OEBPS/ch1.xhtml", markdown: "Hello", wordCount: 1 }],
+      {
+        outDir,
+        skillName: "Engines: A Reference",
+        description: "Notes on the analytical engine.",
+        chapterPrefix: "chapter-",
+        includeFullBook: true,
+        overwrite: true
+      }
+    );
+
+    const skillText = fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8");
+    assert.match(skillText, /^---\nname: "Engines: A Reference"\ndescription: Notes on the analytical engine\.\n---/);
+    assert.match(skillText, /\n- Contributors: Charles Babbage \(editor\)\n- Series: Machines #2\n/);
+    assert.match(skillText, /\n- Published: 1843-10-01\n- Identifiers: ISBN 9780131103627\n/);
+    assert.match(skillText, /\n## About the Book\n\nNotes on the analytical engine\.\n\n## Chapter Index/);
+
+    const chapterText = fs.readFileSync(path.join(outDir, "references", "chapter-001-notes.md"), "utf8");
+    assert.match(chapterText, /\nbook_isbn: "9780131103627"\nbook_date: "1843-10-01"\nbook_series: "Machines"\nbook_series_index: 2\n---/);
+    const fullText = fs.readFileSync(path.join(outDir, "references", "book_full.md"), "utf8");
+    assert.match(fullText, /\nisbn: "9780131103627"\n/);
+
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  test("nests the chapter index by toc depth", () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-nested-index-test-"));
+
+    writeSkill(
+      { title: "Example", authors: [], tags: [] },
+      [
+        { index: 1, title: "Beginnings", slug: "beginnings", sourceFile: "OEBPS/ch1.xhtml", markdown: "One", wordCount: 1, depth: 2, parent: "Part One", tocId: 1, parentTocId: 0 },
+        { index: 2, title: "A Section", slug: "a-section", sourceFile: "OEBPS/s1.xhtml", markdown: "Two", wordCount: 1, depth: 3, parent: "Beginnings", tocId: 2, parentTocId: 1 }
+      ],
+      {
+        outDir,
+        skillName: "Example",
+        description: "Example",
+        chapterPrefix: "chapter-",
+        includeFullBook: false,
+        overwrite: true
+      }
+    );
+
+    const skillText = fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8");
+    assert.match(
+      skillText,
+      /^- Part One\n  - 1\. \[Beginnings\]\(references\/chapter-001-beginnings\.md\) \(1 words, ~1 tokens\)\n    - 2\. \[A Section\]/m
+    );
+
+    const chapterText = fs.readFileSync(path.join(outDir, "references", "chapter-002-a-section.md"), "utf8");
+    assert.match(chapterText, /toc_depth: 3\nparent: "Beginnings"/);
+
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  test("nests children under the right parent when section titles repeat", () => {
+    const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-repeated-parents-test-"));
+    // TOC ids: chapters use their index, parents without a chapter file use 10 and up.
+    const entry = (index: number, title: string, depth: number, parent?: string, parentTocId?: number): Chapter => ({
+      index,
+      title,
+      slug: `s${index}`,
+      sourceFile: `OEBPS/s${index}.xhtml`,
+      markdown: "Text",
+      wordCount: 1,
+      depth,
+      parent,
+      tocId: index,
+      parentTocId
+    });
+
+    writeSkill(
+      { title: "Example", authors: [], tags: [] },
+      [
+        entry(1, "Summary", 1),
+        entry(2, "Problem A", 2, "Exercises", 10),
+        entry(3, "Chapter Two", 1),
+        entry(4, "Problem B", 2, "Exercises", 11),
+        entry(5, "Problem C", 2, "Summary", 12),
+        entry(6, "Problem D", 2, "Part I", 13),
+        entry(7, "Problem E", 2, "Part I", 14),
+        entry(8, "Problem F", 2, "Part I", 14)
+      ],
+      {
+        outDir,
+        skillName: "Example",
+        description: "Example",
+        chapterPrefix: "chapter-",
+        includeFullBook: false,
+        overwrite: true
+      }
+    );
+
+    const index = fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8").split("## Chapter Index\n\n")[1] || "";
+    assert.deepEqual(
+      index.trim().split("\n").map((line) => line.replace(/\]\(.*$/, "")),
+      [
+        "- 1. [Summary",
+        "- Exercises",
+        "  - 2. [Problem A",
+        "- 3. [Chapter Two",
+        "- Exercises",
+        "  - 4. [Problem B",
+        "- Summary",
+        "  - 5. [Problem C",
+        "- Part I",
+        "  - 6. [Problem D",
+        "- Part I",
+        "  - 7. [Problem E",
+        "  - 8. [Problem F"
+      ]
+    );
+
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  test("leaves the existing skill untouched when a write fails", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-atomic-"));
+    const outDir = path.join(tmp, "book-skill");
+    const chapter: Chapter = {
+      index: 1,
+      title: "Intro",
+      slug: "intro",
+      sourceFile: "ch1.xhtml",
+      markdown: "Hello",
+      wordCount: 1
+    };
+    const options = {
+      outDir,
+      skillName: "Book Skill",
+      description: "Book",
+      chapterPrefix: "chapter-",
+      includeFullBook: false,
+      overwrite: true
+    };
+
+    try {
+      writeSkill({ authors: [], tags: [] }, [chapter], options);
+      const previousSkill = fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8");
+
+      // A NUL byte in the prefix makes the chapter write fail.
+      assert.throws(
+        () => writeSkill({ authors: [], tags: [] }, [chapter], { ...options, chapterPrefix: "bad\0chapter-" }),
+        (error: Error & { code?: number }) => error.code === 5 && /left in place/.test(error.message)
+      );
+      assert.equal(fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8"), previousSkill);
+      assert.deepEqual(fs.readdirSync(tmp), ["book-skill"]);
+
+      const written = writeSkill({ title: "New", authors: [], tags: [] }, [chapter], { ...options, keepBackup: true });
+      assert.ok(written.backupDir);
+      assert.match(path.basename(written.backupDir), /^\.book-skill\.backup-/);
+      assert.equal(fs.readFileSync(path.join(written.backupDir, "SKILL.md"), "utf8"), previousSkill);
+      assert.match(fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8"), /Title: New/);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("reports where both copies are when the previous skill cannot be moved back", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-atomic-rollback-"));
+    const outDir = path.join(tmp, "book-skill");
+    const chapter: Chapter = { index: 1, title: "Intro", slug: "intro", sourceFile: "ch1.xhtml", markdown: "Hello", wordCount: 1 };
+    const options = {
+      outDir,
+      skillName: "Book Skill",
+      description: "Book",
+      chapterPrefix: "chapter-",
+      includeFullBook: false,
+      overwrite: true
+    };
+
+    try {
+      writeSkill({ authors: [], tags: [] }, [chapter], options);
+
+      // Let the old skill move aside, then fail both the swap and the move back.
+      const rename = fs.renameSync;
+      let calls = 0;
+      const renameMock = mock.method(fs, "renameSync", (from: fs.PathLike, to: fs.PathLike) => {
+        calls += 1;
+        if (calls > 1) {
+          throw new Error("EBUSY");
+        }
+        rename(from, to);
+      });
+      try {
+        assert.throws(
+          () => writeSkill({ authors: [], tags: [] }, [chapter], options),
+          (error: Error & { code?: number }) =>
+            error.code === 5 &&
+            /could not be moved back and is at .*\.book-skill\.previous-.*; the new skill is staged at .*\.book-skill\.staging-/.test(
+              error.message
+            ) &&
+            !/left in place/.test(error.message)
+        );
+      } finally {
+        renameMock.mock.restore();
+      }
+
+      assert.equal(fs.existsSync(outDir), false);
+      const siblings = fs.readdirSync(tmp).sort();
+      assert.equal(siblings.length, 2);
+      assert.ok(fs.existsSync(path.join(tmp, siblings.find((name) => name.includes(".previous-")) || "", "SKILL.md")));
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("writes image assets next to the chapter references", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-assets-"));
+    const outDir = path.join(tmp, "book-skill");
+    const data = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+    try {
+      const written = writeSkill(
+        { authors: [], tags: [] },
+        [
+          {
+            index: 1,
+            title: "Diagrams",
+            slug: "diagrams",
+            sourceFile: "ch1.xhtml",
+            markdown: "![Flow](assets/abc.png)",
+            wordCount: 1
+          }
+        ],
+        {
+          outDir,
+          skillName: "Book Skill",
+          description: "Book",
+          chapterPrefix: "chapter-",
+          includeFullBook: false,
+          overwrite: false
+        },
+        [{ fileName: "abc.png", sourcePath: "OEBPS/images/flow.png", data }]
+      );
+
+      assert.ok(written.files.includes("references/assets/abc.png"));
+      assert.deepEqual(fs.readFileSync(path.join(outDir, "references", "assets", "abc.png")), data);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+
+  test("writes the term index and links it from SKILL.md", () => {
+    const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-term-index-"));
+    const outDir = path.join(tmp, "book-skill");
+    const options = {
+      outDir,
+      skillName: "Book Skill",
+      description: "Book",
+      chapterPrefix: "chapter-",
+      includeFullBook: false,
+      overwrite: true
+    };
+    const chapters: Chapter[] = [
+      { index: 1, title: "Caching", slug: "caching", sourceFile: "ch1.xhtml", markdown: "# Caching", wordCount: 1 }
+    ];
+
+    try {
+      writeSkill({ authors: [], tags: [] }, chapters, options, [], [
+        { term: "cache", parents: [], chapters: [{ index: 1, anchor: "caching" }] }
+      ]);
+
+      const termIndex = fs.readFileSync(path.join(outDir, "references", "term-index.md"), "utf8");
+      assert.match(termIndex, /- \*\*cache\*\*: \[Caching\]\(chapter-001-caching\.md#caching\)/);
+      assert.ok(fs.existsSync(path.join(outDir, "references", "term-index.json")));
+      assert.match(fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8"), /## Term Index\n\n.*`references\/term-index\.md`/);
+
+      writeSkill({ authors: [], tags: [] }, chapters, options);
+      const skillMd = fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8");
+      assert.doesNotMatch(skillMd, /Term Index|\n\n\n/);
+      assert.equal(fs.existsSync(path.join(outDir, "references", "term-index.md")), false);
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,58 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { writeSkill } from "../src/skill-writer";
+import { summarizeChapter } from "../src/summarize";
+
+const CHAPTER = [
+  "# Caching",
+  "The weather was pleasant on the morning the team met.",
+  "A cache stores recent results so repeated requests avoid slow storage.",
+  "Cache eviction removes old results when the cache fills with requests.",
+  "Good cache keys make repeated requests hit stored results.",
+  "```js\nconst cache = new Map(); // cache cache cache requests results\n```",
+  "| cache | results |\n| - | - |",
+  "Lunch was served at noon in the large hall downstairs."
+].join("\n\n");
+
+describe("summarize", () => {
+  test("picks the most central sentence and ignores code, tables and headings", () => {
+    assert.equal(
+      summarizeChapter(CHAPTER, 60),
+      "A cache stores recent results so repeated requests avoid slow storage."
+    );
+  });
+
+  test("returns more sentences for longer chapters, in reading order", () => {
+    const summary = summarizeChapter(CHAPTER, 1000);
+    assert.equal(
+      summary,
+      "A cache stores recent results so repeated requests avoid slow storage. Good cache keys make repeated requests hit stored results."
+    );
+    assert.equal(summarizeChapter(CHAPTER, 1000), summary);
+  });
+
+  test("writes summaries to frontmatter and the chapter index when enabled", () => {
+    const outDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-summaries-")), "skill");
+    writeSkill(
+      { authors: [], tags: [] },
+      [{ index: 1, title: "Caching", slug: "caching", sourceFile: "ch1.xhtml", markdown: CHAPTER, wordCount: 60 }],
+      {
+        outDir,
+        skillName: "skill",
+        description: "Skill",
+        chapterPrefix: "chapter-",
+        includeFullBook: false,
+        overwrite: false,
+        summaries: true
+      }
+    );
+
+    const chapterText = fs.readFileSync(path.join(outDir, "references", "chapter-001-caching.md"), "utf8");
+    assert.match(chapterText, /\nsummary: "A cache stores recent results so repeated requests avoid slow storage\."\n/);
+    const skillText = fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8");
+    assert.match(skillText, /~\d+ tokens\): A cache stores recent results/);
+  });
+});
@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { writeSkill } from "../src/skill-writer";
+import { parseTemplate, renderTemplate } from "../src/template";
+import type { Chapter } from "../src/types";
+
+function render(source: string, context: Record<string, unknown>): string {
+  return renderTemplate(parseTemplate(source, "test"), context);
+}
+
+const CHAPTERS: Chapter[] = [
+  { index: 1, title: "Intro", slug: "intro", sourceFile: "ch1.xhtml", markdown: "# Intro\n\nHello {{name}}.", wordCount: 3 },
+  { index: 2, title: "Usage", slug: "usage", sourceFile: "ch2.xhtml", markdown: "# Usage\n\nRun it.", wordCount: 3 }
+];
+
+describe("template", () => {
+  test("renders values, nested paths and lists", () => {
+    assert.equal(
+      render("{{ name }} by {{book.authors}} ({{missing}})", { name: "Skill", book: { authors: ["A", "B"] } }),
+      "Skill by A, B ()"
+    );
+  });
+
+  test("treats keys named after Object.prototype members as missing", () => {
+    assert.equal(
+      render("[{{constructor}}|{{toString}}|{{__proto__}}|{{book.constructor}}|{{#if hasOwnProperty}}x{{/if}}]", {
+        book: {}
+      }),
+      "[||||]"
+    );
+  });
+
+  test("loops drop standalone tag lines and expose item fields and loop state", () => {
+    const source = "Chapters:\n{{#each chapters}}\n- {{@index}} {{title}}{{#if @last}}.{{else}};{{/if}} ({{name}})\n{{/each}}\nEnd\n";
+    assert.equal(
+      render(source, { name: "Skill", chapters: [{ title: "One" }, { title: "Two" }] }),
+      "Chapters:\n- 0 One; (Skill)\n- 1 Two. (Skill)\nEnd\n"
+    );
+  });
+
+  test("conditionals treat empty lists and missing values as false", () => {
+    const source = "{{#if book.publisher}}Publisher: {{book.publisher}}{{/if}}{{#unless tags}}No tags{{/unless}}";
+    assert.equal(render(source, { book: {}, tags: [] }), "No tags");
+    assert.equal(render(source, { book: { publisher: "Acme" }, tags: ["x"] }), "Publisher: Acme");
+    assert.equal(render("{{#each items}}{{this}}{{else}}none{{/each}}", { items: [] }), "none");
+  });
+
+  test("reports syntax errors with the template name and line", () => {
+    assert.throws(() => parseTemplate("a\n{{#each chapters}}\nb", "custom.tpl"), /custom\.tpl, line 2: unclosed/);
+    assert.throws(() => parseTemplate("{{#if a}}{{/each}}", "custom.tpl"), /unexpected \{\{\/each\}\}/);
+    assert.throws(() => parseTemplate("{{#with a}}{{/with}}", "custom.tpl"), /unknown block/);
+  });
+
+  test("writes SKILL.md, chapter files and book_full.md from custom templates", () => {
+    const outDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-template-")), "skill");
+    writeSkill({ title: "Guide", authors: [], tags: [] }, CHAPTERS, {
+      outDir,
+      skillName: "guide",
+      description: "Guide skill",
+      chapterPrefix: "chapter-",
+      includeFullBook: true,
+      overwrite: false,
+      templates: {
+        skill: "# {{name}}\n{{#if book.publisher}}\nPublished by {{book.publisher}}\n{{/if}}\n{{#each chapters}}\n- [{{title}}]({{file}}) {{word_count}} words\n{{/each}}\n",
+        chapter: "<!-- {{book.title}}: {{chapter.index}}/{{chapter.title}} -->\n{{content}}\n",
+        fullBook: "{{#each chapters}}\n# {{title}}\n{{content}}\n{{/each}}\n"
+      }
+    });
+
+    assert.equal(
+      fs.readFileSync(path.join(outDir, "SKILL.md"), "utf8"),
+      "# guide\n- [Intro](references/chapter-001-intro.md) 3 words\n- [Usage](references/chapter-002-usage.md) 3 words\n"
+    );
+    assert.equal(
+      fs.readFileSync(path.join(outDir, "references", "chapter-001-intro.md"), "utf8"),
+      "<!-- Guide: 1/Intro -->\n# Intro\n\nHello {{name}}.\n"
+    );
+    assert.equal(
+      fs.readFileSync(path.join(outDir, "references", "book_full.md"), "utf8"),
+      "# Intro\n# Intro\n\nHello {{name}}.\n# Usage\n# Usage\n\nRun it.\n"
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { extractIndexEntries, isIndexSection, renderTermIndex, resolveTermIndex } from "../src/term-index";
+import type { Chapter } from "../src/types";
+
+function chapter(index: number, title: string): Chapter {
+  return { index, title, slug: title.toLowerCase(), sourceFile: "ch.xhtml", markdown: "", wordCount: 1 };
+}
+
+describe("term-index", () => {
+  test("recognizes index sections by semantics or title", () => {
+    assert.equal(isIndexSection(`<section epub:type="index"></section>`, "Back Matter"), true);
+    assert.equal(isIndexSection("<p>Terms</p>", "Subject Index"), true);
+    assert.equal(isIndexSection("<p>B-trees</p>", "Database Index Design"), false);
+  });
+
+  test("reads flat paragraph entries with numbered level classes", () => {
+    const html = `<div>
+      <p class="index1">Agents, <a href="ch1.xhtml#a">3</a></p>
+      <p class="index2">planning, <a href="ch2.xhtml#b">17</a>–<a href="ch2.xhtml#c">19</a></p>
+      <p class="index1">Tools <a href="#letter-t">T</a></p>
+    </div>`;
+
+    assert.deepEqual(extractIndexEntries(html, "OEBPS/index.xhtml"), [
+      { term: "Agents", parents: [], targets: ["OEBPS/ch1.xhtml#a"] },
+      { term: "planning", parents: ["Agents"], targets: ["OEBPS/ch2.xhtml#b", "OEBPS/ch2.xhtml#c"] },
+      { term: "Tools", parents: [], targets: [] }
+    ]);
+  });
+
+  test("merges repeated terms and renders nested markdown with chapter links", () => {
+    const locations: Record<string, { index: number; anchor?: string }> = {
+      a: { index: 1, anchor: "intro" },
+      b: { index: 2 }
+    };
+    const termIndex = resolveTermIndex(
+      [
+        { term: "Agents", parents: [], targets: [] },
+        { term: "planning", parents: ["Agents"], targets: ["a", "b", "missing"] },
+        { term: "planning", parents: ["Agents"], targets: ["b"] }
+      ],
+      (key) => locations[key]
+    );
+    assert.deepEqual(termIndex, [
+      { term: "planning", parents: ["Agents"], chapters: [{ index: 1, anchor: "intro" }, { index: 2 }] }
+    ]);
+
+    const { markdown, json } = renderTermIndex(termIndex, [chapter(1, "Intro"), chapter(2, "Plans")], (index) =>
+      index === 1 ? "chapter-001-intro.md" : "chapter-002-plans.md"
+    );
+    assert.match(
+      markdown,
+      /\n- \*\*Agents\*\*\n {2}- \*\*planning\*\*: \[Intro\]\(chapter-001-intro\.md#intro\), \[Plans\]\(chapter-002-plans\.md\)\n$/
+    );
+    assert.deepEqual(JSON.parse(json).terms[0].chapters[1], {
+      index: 2,
+      title: "Plans",
+      file: "references/chapter-002-plans.md"
+    });
+  });
+});
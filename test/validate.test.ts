@@ -0,0 +1,96 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { formatValidationReport, validateSkill } from "../src/commands/validate";
+import { writeSkill } from "../src/skill-writer";
+import type { Chapter } from "../src/types";
+
+const CHAPTERS: Chapter[] = [
+  { index: 1, title: "Intro", slug: "intro", sourceFile: "ch1.xhtml", markdown: "# Intro\n\nHello there.", wordCount: 3 },
+  { index: 2, title: "Usage", slug: "usage", sourceFile: "ch2.xhtml", markdown: "# Usage\n\nRun it now.", wordCount: 4 },
+  { index: 3, title: "Outro", slug: "outro", sourceFile: "ch3.xhtml", markdown: "# Outro\n\nBye.", wordCount: 2 }
+];
+
+function writeFixture(): string {
+  const outDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "injectbook-validate-")), "skill");
+  writeSkill({ title: "Guide", authors: ["Ada"], tags: [] }, CHAPTERS, {
+    outDir,
+    skillName: "guide",
+    description: "Guide skill",
+    chapterPrefix: "chapter-",
+    includeFullBook: true,
+    overwrite: false
+  });
+  return outDir;
+}
+
+function rules(skillDir: string, maxWords = 15000): string[] {
+  return validateSkill(skillDir, { maxWords }).issues.map((issue) => `${issue.file}:${issue.line ?? ""} ${issue.rule}`);
+}
+
+describe("validate", () => {
+  test("accepts a freshly generated skill", () => {
+    const report = validateSkill(writeFixture(), { maxWords: 15000 });
+    assert.deepEqual(report.issues, []);
+    assert.equal(report.files, 5);
+    assert.equal(formatValidationReport(report), "0 errors, 0 warnings in 5 files");
+  });
+
+  test("reports YAML errors, broken links and index gaps with file and line", () => {
+    const skillDir = writeFixture();
+    const skillMd = path.join(skillDir, "SKILL.md");
+    fs.writeFileSync(
+      skillMd,
+      fs
+        .readFileSync(skillMd, "utf8")
+        .replace("name: guide", "name: Guide: The Book")
+        .replace("chapter-002-usage.md", "chapter-002-renamed.md")
+    );
+    fs.renameSync(
+      path.join(skillDir, "references", "chapter-002-usage.md"),
+      path.join(skillDir, "references", "chapter-002-renamed.md.bak")
+    );
+
+    assert.deepEqual(rules(skillDir), [
+      "SKILL.md:2 frontmatter-yaml",
+      "references/chapter-003-outro.md: index-sequence"
+    ]);
+
+    fs.writeFileSync(skillMd, fs.readFileSync(skillMd, "utf8").replace("name: Guide: The Book", 'name: "Guide: The Book"'));
+    const report = validateSkill(skillDir, { maxWords: 15000 });
+    assert.deepEqual(
+      report.issues.map((issue) => issue.rule),
+      ["broken-link", "index-sequence"]
+    );
+    assert.match(formatValidationReport(report), /^SKILL\.md:\d+: error \[broken-link\] Link target does not exist: references\/chapter-002-renamed\.md\n/);
+    assert.match(report.issues[1].message, /skips chapter index 2/);
+  });
+
+  test("reports a malformed percent escape in a link as a broken link", () => {
+    const skillDir = writeFixture();
+    const skillMd = path.join(skillDir, "SKILL.md");
+    fs.writeFileSync(skillMd, `${fs.readFileSync(skillMd, "utf8")}\nSee [x](a%zz.md).\n`);
+
+    const report = validateSkill(skillDir, { maxWords: 15000 });
+    assert.deepEqual(
+      report.issues.map((issue) => `${issue.rule} ${issue.message}`),
+      ["broken-link Link target has an invalid percent escape: a%zz.md"]
+    );
+  });
+
+  test("checks skill name and description limits and flags oversized files", () => {
+    const skillDir = writeFixture();
+    const skillMd = path.join(skillDir, "SKILL.md");
+    fs.writeFileSync(skillMd, fs.readFileSync(skillMd, "utf8").replace("name: guide", `name: ${"x".repeat(65)}`));
+
+    const report = validateSkill(skillDir, { maxWords: 4 });
+    assert.deepEqual(
+      report.issues.map((issue) => `${issue.severity} ${issue.rule} ${issue.file}`),
+      ["error name-too-long SKILL.md", "warning file-too-large references/chapter-002-usage.md"]
+    );
+    assert.equal(report.errors, 1);
+    assert.equal(report.warnings, 1);
+  });
+});